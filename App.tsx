@@ -3,22 +3,32 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import StartScreen from './components/StartScreen';
 import Canvas from './components/Canvas';
 import WardrobePanel from './components/WardrobeModal';
 import OutfitStack from './components/OutfitStack';
-import { generateVirtualTryOnImage, addAccessoryToImage, generatePoseVariation, changeBackgroundImage, changeBackgroundImageWithImage, changeImageAspectRatio, editImageWithMask } from './services/geminiService';
-import { OutfitLayer, WardrobeItem, SavedOutfit } from './types';
-import { ChevronDownIcon, ChevronUpIcon } from './components/icons';
+import { generateVirtualTryOnImage, addAccessoryToImage, generatePoseVariation, changeBackgroundImage, changeBackgroundImageWithImage, changeImageAspectRatio, editImageWithRegions } from './services/geminiService';
+import { OutfitLayer, WardrobeItem, SavedOutfit, GenerationJobMeta, GeneratedImageInfo, AlternateImage, CandidateChoice, AnnotationRegion, RegionApplyMode, ImageAdjustments } from './types';
+import type { GenerationResult } from './services/imageProvider';
+import { ChevronDownIcon, ChevronUpIcon, SettingsIcon, ActivityIcon } from './components/icons';
 import { defaultWardrobe } from './wardrobe';
 import Footer from './components/Footer';
-import { getFriendlyErrorMessage } from './lib/utils';
+import { confirmWithinBudget, getFriendlyErrorMessage, isAbortError, withAbort } from './lib/utils';
+import { getGenerationOptions } from './services/generationOptions';
 import Spinner from './components/Spinner';
 import BackgroundPanel from './components/BackgroundPanel';
+import AdjustmentPanel from './components/AdjustmentPanel';
 import LookbookPanel from './components/LookbookPanel';
 import AnnotationModal from './components/AnnotationModal';
+import CropPanel from './components/CropPanel';
+import QueueTray from './components/QueueTray';
+import SettingsModal from './components/SettingsModal';
+import DebugModal from './components/DebugModal';
+import { preparePromptInput } from './services/promptSafety';
+import { createJobQueue, isJobActive } from './lib/jobQueue';
+import { isNeutralAdjustments } from './lib/imageAdjustments';
 
 const INITIAL_POSE_INSTRUCTIONS = [
   "Full frontal view, hands on hips",
@@ -35,6 +45,25 @@ const INITIAL_POSE_INSTRUCTIONS = [
   "Lounging on a sofa",
 ];
 
+const createLayerId = () => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A choice the user still has to make, with what to do once they have.
+interface PendingCandidateChoice extends CandidateChoice {
+  onPick: (index: number) => void;
+  onDiscard: () => void;
+}
+
+const listCandidates = (result: GenerationResult) => [result.imageUrl, ...(result.alternates ?? [])];
+
+// Provenance of one of the images in a result.
+const describeResultImage = (result: GenerationResult, imageUrl: string): GeneratedImageInfo => ({
+  promptTemplate: result.promptTemplate,
+  check: result.checks?.[listCandidates(result).indexOf(imageUrl)],
+});
+
+const hasFlaggedImage = (layer: OutfitLayer) =>
+  Object.values(layer.poseImageInfo ?? {}).some((info: GeneratedImageInfo) => info.check?.flagged);
+
 const useMediaQuery = (query: string): boolean => {
   const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
 
@@ -72,13 +101,31 @@ const App: React.FC = () => {
   const [pendingPoseIndex, setPendingPoseIndex] = useState<number | null>(null);
   const [isSheetCollapsed, setIsSheetCollapsed] = useState(false);
   const [isBackgroundPanelCollapsed, setIsBackgroundPanelCollapsed] = useState(false);
+  const [isAdjustmentPanelCollapsed, setIsAdjustmentPanelCollapsed] = useState(true);
   const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(defaultWardrobe);
   const [savedOutfits, setSavedOutfits] = useState<SavedOutfit[]>([]);
   const [currentAspectRatio, setCurrentAspectRatio] = useState('2:3');
   const [undoStack, setUndoStack] = useState<(() => void)[]>([]);
   const [isEditing, setIsEditing] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [candidateChoices, setCandidateChoices] = useState<PendingCandidateChoice[]>([]);
+  // Garment layers waiting for the user to pick a variant; garments queued on top of them wait too.
+  const pendingLayersRef = useRef(new Map<string, Promise<void>>());
+  // Garment layers that made it into the outfit, to tell a removed layer from one that was never added.
+  const addedLayerIdsRef = useRef(new Set<string>());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [generationQueue] = useState(() => createJobQueue<GenerationJobMeta>({
+    describeError: (err, label) => getFriendlyErrorMessage(err, `Failed: ${label}`),
+  }));
+  const generationJobs = useSyncExternalStore(generationQueue.subscribe, generationQueue.getSnapshot);
   const isMobile = useMediaQuery('(max-width: 767px)');
 
+  // Queued jobs finish after the render that started them, so they read the latest state from here.
+  const latestStateRef = useRef({ outfitHistory, currentOutfitIndex, currentPoseIndex, poseInstructions });
+  latestStateRef.current = { outfitHistory, currentOutfitIndex, currentPoseIndex, poseInstructions };
+
   useEffect(() => {
     try {
       const storedOutfits = localStorage.getItem('my-fit-check-lookbook');
@@ -111,22 +158,216 @@ const App: React.FC = () => {
     return currentLayer.poseImages[poseInstruction] ?? Object.values(currentLayer.poseImages)[0];
   }, [outfitHistory, currentOutfitIndex, currentPoseIndex, modelImageUrl, poseInstructions]);
 
+  // The pose whose image is actually on screen, which falls back like displayImageUrl does.
+  const displayPoseInstruction = useMemo(() => {
+    const currentLayer = outfitHistory[currentOutfitIndex];
+    if (!currentLayer) return undefined;
+    const poseInstruction = poseInstructions[currentPoseIndex];
+    return currentLayer.poseImages[poseInstruction] ? poseInstruction : Object.keys(currentLayer.poseImages)[0];
+  }, [outfitHistory, currentOutfitIndex, currentPoseIndex, poseInstructions]);
+
+  const displayImageInfo = useMemo(() =>
+    displayPoseInstruction ? outfitHistory[currentOutfitIndex]?.poseImageInfo?.[displayPoseInstruction] : undefined,
+    [outfitHistory, currentOutfitIndex, displayPoseInstruction]
+  );
+
+  const displayAdjustments = useMemo(() =>
+    displayPoseInstruction ? outfitHistory[currentOutfitIndex]?.poseAdjustments?.[displayPoseInstruction] : undefined,
+    [outfitHistory, currentOutfitIndex, displayPoseInstruction]
+  );
+
+  const displayAlternates = useMemo((): AlternateImage[] =>
+    outfitHistory[currentOutfitIndex]?.alternates?.filter((alternate: AlternateImage) => alternate.poseInstruction === displayPoseInstruction) ?? [],
+    [outfitHistory, currentOutfitIndex, displayPoseInstruction]
+  );
+
   const availablePoseKeys = useMemo(() => {
     if (outfitHistory.length === 0) return [];
     const currentLayer = outfitHistory[currentOutfitIndex];
     return currentLayer ? Object.keys(currentLayer.poseImages) : [];
   }, [outfitHistory, currentOutfitIndex]);
 
-  const handleModelFinalized = (url: string) => {
+  const queuedGarmentIds = useMemo(() =>
+    generationJobs.filter(isJobActive).flatMap(job => job.meta.kind === 'garment' ? [job.meta.garmentId] : []),
+    [generationJobs]
+  );
+
+  const currentViewJob = useMemo(() => {
+    const currentLayer = outfitHistory[currentOutfitIndex];
+    const poseInstruction = poseInstructions[currentPoseIndex];
+    return generationJobs.find(job => isJobActive(job) && job.meta.kind === 'pose'
+      && job.meta.layerId === currentLayer?.id && job.meta.poseInstruction === poseInstruction);
+  }, [generationJobs, outfitHistory, currentOutfitIndex, currentPoseIndex, poseInstructions]);
+
+  const findLayer = useCallback((layerId: string): OutfitLayer | undefined =>
+    latestStateRef.current.outfitHistory.find(layer => layer.id === layerId),
+  []);
+
+  const isViewing = useCallback((layerId: string, poseInstruction: string) => {
+    const { outfitHistory, currentOutfitIndex, currentPoseIndex, poseInstructions } = latestStateRef.current;
+    return outfitHistory[currentOutfitIndex]?.id === layerId && poseInstructions[currentPoseIndex] === poseInstruction;
+  }, []);
+
+  // Sets (or, with `undefined`, removes) the image for one pose of a layer, wherever that layer now sits.
+  const setLayerPoseImage = useCallback((layerId: string, poseInstruction: string, imageUrl: string | undefined, info?: GeneratedImageInfo) => {
+    setOutfitHistory(prevHistory => prevHistory.map(layer => {
+      if (layer.id !== layerId) return layer;
+      const { [poseInstruction]: _previous, ...otherPoseImages } = layer.poseImages;
+      const { [poseInstruction]: _previousInfo, ...otherPoseInfo } = layer.poseImageInfo ?? {};
+      return {
+        ...layer,
+        poseImages: imageUrl ? { ...otherPoseImages, [poseInstruction]: imageUrl } : otherPoseImages,
+        poseImageInfo: imageUrl && info ? { ...otherPoseInfo, [poseInstruction]: info } : otherPoseInfo,
+      };
+    }));
+  }, []);
+
+  const setLayerAlternates = useCallback((layerId: string, update: (alternates: AlternateImage[]) => AlternateImage[]) => {
+    setOutfitHistory(prevHistory => prevHistory.map(layer =>
+      layer.id === layerId ? { ...layer, alternates: update(layer.alternates ?? []) } : layer
+    ));
+  }, []);
+
+  // Adjustments are stored next to the pose image they tune; neutral ones are dropped.
+  const setLayerPoseAdjustments = useCallback((layerId: string, poseInstruction: string, adjustments: ImageAdjustments) => {
+    setOutfitHistory(prevHistory => prevHistory.map(layer => {
+      if (layer.id !== layerId) return layer;
+      const { [poseInstruction]: _previous, ...otherAdjustments } = layer.poseAdjustments ?? {};
+      return {
+        ...layer,
+        poseAdjustments: isNeutralAdjustments(adjustments) ? otherAdjustments : { ...otherAdjustments, [poseInstruction]: adjustments },
+      };
+    }));
+  }, []);
+
+  const offerCandidates = useCallback((choice: Omit<PendingCandidateChoice, 'id'>) => {
+    setCandidateChoices(prev => [...prev, { ...choice, id: `choice-${Date.now()}-${prev.length}` }]);
+  }, []);
+
+  // Applies a pose image straight away, or lets the user pick one of several variants first.
+  // Variants that were not picked are kept as alternates of the layer.
+  const deliverPoseImage = useCallback((title: string, layerId: string, poseInstruction: string, result: GenerationResult, apply: (imageUrl: string) => void, onDiscard: () => void = () => {}) => {
+    const candidates = listCandidates(result);
+    if (candidates.length === 1) {
+      apply(result.imageUrl);
+      return;
+    }
+    offerCandidates({
+      title,
+      candidates,
+      onPick: index => {
+        apply(candidates[index]);
+        const rejected = candidates.filter((_, i) => i !== index).map(imageUrl => ({ poseInstruction, imageUrl }));
+        setLayerAlternates(layerId, alternates => [...alternates, ...rejected]);
+      },
+      onDiscard,
+    });
+  }, [offerCandidates, setLayerAlternates]);
+
+  const showLayer = useCallback((layerId: string) => {
+    const index = latestStateRef.current.outfitHistory.findIndex(layer => layer.id === layerId);
+    if (index !== -1) {
+      setCurrentOutfitIndex(index);
+      setCurrentPoseIndex(0);
+    }
+  }, []);
+
+  // Stacks a finished garment on top of its parent layer, cutting any layers that came after it.
+  const insertLayerAfter = useCallback((parentLayerId: string, newLayer: OutfitLayer) => {
+    const { outfitHistory: history, currentOutfitIndex: viewingIndex } = latestStateRef.current;
+    const parentIndex = history.findIndex(layer => layer.id === parentLayerId);
+    if (parentIndex === -1) {
+      throw new Error('The outfit it was queued for is no longer open.');
+    }
+    const viewingLayerId = history[viewingIndex]?.id;
+    const newHistory = [...history.slice(0, parentIndex + 1), newLayer];
+    setOutfitHistory(newHistory);
+    latestStateRef.current = { ...latestStateRef.current, outfitHistory: newHistory };
+    addedLayerIdsRef.current.add(newLayer.id);
+
+    // Follow the new layer if the user is still looking at its parent; otherwise leave them where they are.
+    const keptIndex = newHistory.findIndex(layer => layer.id === viewingLayerId);
+    setCurrentOutfitIndex(viewingLayerId === parentLayerId || keptIndex === -1 ? newHistory.length - 1 : keptIndex);
+  }, []);
+
+  // Starts a cancellable generation, aborting any request that is still in flight.
+  const beginGeneration = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const endGeneration = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const resolveCandidateChoice = useCallback((index: number | null) => {
+    const [choice] = candidateChoices;
+    if (!choice) return;
+    setCandidateChoices(prev => prev.filter(c => c.id !== choice.id));
+    try {
+      if (index === null) {
+        choice.onDiscard();
+      } else {
+        choice.onPick(index);
+      }
+    } catch (err: unknown) {
+      setError(getFriendlyErrorMessage(err, `Could not apply "${choice.title}"`));
+    }
+  }, [candidateChoices]);
+
+  const handleShowAlternates = useCallback(() => {
+    const currentLayer: OutfitLayer | undefined = outfitHistory[currentOutfitIndex];
+    if (!currentLayer || !displayImageUrl || !displayPoseInstruction || displayAlternates.length === 0) return;
+    const layerId = currentLayer.id;
+    const poseInstruction = displayPoseInstruction;
+    // Alternates were not measured individually once stored, so a swapped-in image carries no check.
+    const info = { ...currentLayer.poseImageInfo?.[poseInstruction], check: undefined };
+
+    // Picking an alternate swaps it with the image that is currently shown.
+    const swap = (fromUrl: string, toUrl: string) => {
+      setLayerPoseImage(layerId, poseInstruction, toUrl, info);
+      setLayerAlternates(layerId, alternates => alternates.map(alternate =>
+        alternate.poseInstruction === poseInstruction && alternate.imageUrl === toUrl ? { poseInstruction, imageUrl: fromUrl } : alternate
+      ));
+    };
+    offerCandidates({
+      title: 'Alternates',
+      candidates: [displayImageUrl, ...displayAlternates.map(alternate => alternate.imageUrl)],
+      onPick: index => {
+        if (index === 0) return;
+        const pickedUrl = displayAlternates[index - 1].imageUrl;
+        swap(displayImageUrl, pickedUrl);
+        setUndoStack(prev => [...prev, () => swap(pickedUrl, displayImageUrl)]);
+      },
+      onDiscard: () => {},
+    });
+  }, [outfitHistory, currentOutfitIndex, displayImageUrl, displayPoseInstruction, displayAlternates, offerCandidates, setLayerPoseImage, setLayerAlternates]);
+
+  const handleModelFinalized = (url: string, info?: GeneratedImageInfo) => {
     setModelImageUrl(url);
     setOutfitHistory([{
+      id: createLayerId(),
       garment: null,
-      poseImages: { [poseInstructions[0]]: url }
+      poseImages: { [poseInstructions[0]]: url },
+      poseImageInfo: info ? { [poseInstructions[0]]: info } : {},
     }]);
     setCurrentOutfitIndex(0);
   };
 
   const handleStartOver = () => {
+    abortControllerRef.current?.abort();
+    generationQueue.cancelAll();
+    generationQueue.clearFinished();
+    setCandidateChoices([]);
+    pendingLayersRef.current.clear();
     setModelImageUrl(null);
     setOutfitHistory([]);
     setCurrentOutfitIndex(0);
@@ -141,12 +382,15 @@ const App: React.FC = () => {
     setUndoStack([]);
   };
 
-  const handleGarmentSelect = useCallback(async (garmentFile: File, garmentInfo: WardrobeItem) => {
+  const handleGarmentSelect = useCallback((garmentFile: File, garmentInfo: WardrobeItem) => {
     if (!displayImageUrl || isLoading) return;
 
-    // Caching: Check if we are re-applying a previously generated layer
+    const currentLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
+    const lastGarmentJob = [...generationJobs].reverse().find(job => job.meta.kind === 'garment' && isJobActive(job));
+
+    // Caching: Check if we are re-applying a previously generated layer (unless it was flagged, so it can be regenerated)
     const nextLayer = outfitHistory[currentOutfitIndex + 1];
-    if (nextLayer && nextLayer.garment?.id === garmentInfo.id) {
+    if (!lastGarmentJob && nextLayer && nextLayer.garment?.id === garmentInfo.id && !hasFlaggedImage(nextLayer)) {
         const previousOutfitIndex = currentOutfitIndex;
         setCurrentOutfitIndex(prev => prev + 1);
         setCurrentPoseIndex(0); // Reset pose when changing layer
@@ -156,50 +400,89 @@ const App: React.FC = () => {
         return;
     }
 
+    if (!confirmWithinBudget(garmentInfo.category === 'accessory' ? 'addAccessory' : 'tryOn', getGenerationOptions().candidateCount)) return;
+
+    // A garment queued while another is still generating is stacked on top of that one's result.
+    const parentLayerId = lastGarmentJob?.meta.kind === 'garment' ? lastGarmentJob.meta.layerId : currentLayer.id;
+    const layerId = createLayerId();
+    const poseInstruction = poseInstructions[currentPoseIndex];
+    const aspectRatio = currentAspectRatio;
     setError(null);
-    setIsLoading(true);
-    setLoadingMessage(`Adding ${garmentInfo.name}...`);
 
-    try {
-      const newImageUrl = garmentInfo.category === 'accessory' 
-        ? await addAccessoryToImage(displayImageUrl, garmentFile, currentAspectRatio)
-        : await generateVirtualTryOnImage(displayImageUrl, garmentFile, currentAspectRatio);
-      
-      const currentPoseInstruction = poseInstructions[currentPoseIndex];
+    generationQueue.enqueue(`Add ${garmentInfo.name}`, { kind: 'garment', garmentId: garmentInfo.id, parentLayerId, layerId }, async ({ signal, setMessage }) => {
+      const pendingParent = pendingLayersRef.current.get(parentLayerId);
+      if (pendingParent) {
+        setMessage('Waiting for you to pick the previous variant...');
+        await withAbort(pendingParent, signal);
+      }
+      // If the garment it was queued behind failed, was cancelled or had its variants discarded,
+      // this one goes on top of whatever is shown now instead.
+      const wasParentAdded = !lastGarmentJob || addedLayerIdsRef.current.has(parentLayerId);
+      const { outfitHistory: latestHistory, currentOutfitIndex: latestIndex } = latestStateRef.current;
+      const parentLayer: OutfitLayer | undefined = wasParentAdded ? findLayer(parentLayerId) : latestHistory[latestIndex];
+      if (!parentLayer) {
+        throw new Error('The outfit it was queued for is no longer open.');
+      }
+      setMessage(`Adding ${garmentInfo.name}...`);
+
+      const baseImageUrl = parentLayer.poseImages[poseInstruction] ?? Object.values(parentLayer.poseImages)[0];
+      const result = garmentInfo.category === 'accessory' 
+        ? await addAccessoryToImage(baseImageUrl, garmentFile, aspectRatio, signal)
+        : await generateVirtualTryOnImage(baseImageUrl, garmentFile, aspectRatio, signal);
+      const candidates = listCandidates(result);
       
-      const newLayer: OutfitLayer = { 
-        garment: garmentInfo, 
-        poseImages: { [currentPoseInstruction]: newImageUrl } 
+      // The layer is only added to the outfit once a variant has been picked.
+      const commitLayer = (index: number) => {
+        const newLayer: OutfitLayer = { 
+          id: layerId,
+          garment: garmentInfo, 
+          poseImages: { [poseInstruction]: candidates[index] },
+          poseImageInfo: { [poseInstruction]: describeResultImage(result, candidates[index]) },
+          alternates: candidates.filter((_, i) => i !== index).map(imageUrl => ({ poseInstruction, imageUrl })),
+        };
+        insertLayerAfter(parentLayer.id, newLayer);
+        
+        const undoAction = () => {
+          showLayer(parentLayer.id);
+        };
+        setUndoStack(prev => [...prev, undoAction]);
+        
+        // Add to personal wardrobe if it's not already there
+        setWardrobe(prev => {
+          if (prev.find(item => item.id === garmentInfo.id)) {
+              return prev;
+          }
+          return [...prev, garmentInfo];
+        });
       };
 
-      setOutfitHistory(prevHistory => {
-        // Cut the history at the current point before adding the new layer
-        const newHistory = prevHistory.slice(0, currentOutfitIndex + 1);
-        return [...newHistory, newLayer];
-      });
-      setCurrentOutfitIndex(prev => prev + 1);
-      
-      const undoAction = () => {
-        setCurrentOutfitIndex(prev => prev - 1);
-        setCurrentPoseIndex(0);
+      if (candidates.length === 1) {
+        commitLayer(0);
+        setMessage('Added');
+        return;
+      }
+
+      let settle = () => {};
+      pendingLayersRef.current.set(layerId, new Promise<void>(resolve => { settle = resolve; }));
+      const finish = () => {
+        pendingLayersRef.current.delete(layerId);
+        settle();
       };
-      setUndoStack(prev => [...prev, undoAction]);
-      
-      // Add to personal wardrobe if it's not already there
-      setWardrobe(prev => {
-        if (prev.find(item => item.id === garmentInfo.id)) {
-            return prev;
-        }
-        return [...prev, garmentInfo];
+      offerCandidates({
+        title: `Add ${garmentInfo.name}`,
+        candidates,
+        onPick: index => {
+          try {
+            commitLayer(index);
+          } finally {
+            finish();
+          }
+        },
+        onDiscard: finish,
       });
-    } catch (err: unknown) {
-      // Fix: Correctly handle errors by typing the catch clause variable as `unknown` and using a helper function for user-friendly error messages.
-      setError(getFriendlyErrorMessage(err, 'Failed to apply garment'));
-    } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
-    }
-  }, [displayImageUrl, isLoading, currentPoseIndex, outfitHistory, currentOutfitIndex, currentAspectRatio, poseInstructions]);
+      setMessage(`${candidates.length} variants ready to pick`);
+    });
+  }, [displayImageUrl, isLoading, currentPoseIndex, outfitHistory, currentOutfitIndex, currentAspectRatio, poseInstructions, generationJobs, generationQueue, findLayer, insertLayerAfter, showLayer, offerCandidates]);
 
   const handleRemoveLastGarment = () => {
     if (currentOutfitIndex > 0) {
@@ -209,66 +492,66 @@ const App: React.FC = () => {
     }
   };
   
-  const handlePoseSelect = useCallback(async (newIndex: number) => {
+  const handlePoseSelect = useCallback((newIndex: number) => {
     if (isLoading || outfitHistory.length === 0 || newIndex === currentPoseIndex) return;
     
     const poseInstruction = poseInstructions[newIndex];
-    const currentLayer = outfitHistory[currentOutfitIndex];
+    const currentLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
+    const isAlreadyQueued = generationJobs.some(job =>
+      isJobActive(job) && job.meta.kind === 'pose' && job.meta.layerId === currentLayer.id && job.meta.poseInstruction === poseInstruction
+    );
 
-    // If pose already exists, just update the index to show it.
-    if (currentLayer.poseImages[poseInstruction]) {
+    // If pose already exists (or is on its way), just update the index to show it.
+    if (currentLayer.poseImages[poseInstruction] || isAlreadyQueued) {
       setCurrentPoseIndex(newIndex);
       return;
     }
 
-    // Pose doesn't exist, so generate it.
-    // Use an existing image from the current layer as the base.
-    const baseImageForPoseChange = Object.values(currentLayer.poseImages)[0];
-    if (!baseImageForPoseChange) return; // Should not happen
+    if (!confirmWithinBudget('poseVariation', getGenerationOptions().candidateCount)) return;
 
     setError(null);
-    setIsLoading(true);
-    setLoadingMessage(`Changing pose...`);
-    
     const prevPoseIndex = currentPoseIndex;
-    const originalLayer = outfitHistory[currentOutfitIndex];
+    const layerId = currentLayer.id;
+    const aspectRatio = currentAspectRatio;
     // Optimistically update the pose index so the pose name changes in the UI
     setCurrentPoseIndex(newIndex);
 
-    try {
-      const newImageUrl = await generatePoseVariation(baseImageForPoseChange, poseInstruction, currentAspectRatio);
-      setOutfitHistory(prevHistory => {
-        const newHistory = [...prevHistory];
-        const updatedLayer = {
-            ...originalLayer,
-            poseImages: {
-                ...originalLayer.poseImages,
-                [poseInstruction]: newImageUrl,
-            },
-        };
-        newHistory[currentOutfitIndex] = updatedLayer;
-        return newHistory;
-      });
+    generationQueue.enqueue(`Pose: ${poseInstruction}`, { kind: 'pose', layerId, poseInstruction }, async ({ signal, setMessage }) => {
+      try {
+        const layer: OutfitLayer | undefined = findLayer(layerId);
+        if (!layer) {
+          throw new Error('The outfit it was queued for is no longer open.');
+        }
+        // Pose doesn't exist, so generate it.
+        // Use an existing image from the layer as the base.
+        const baseImageForPoseChange = Object.values(layer.poseImages)[0];
+        setMessage('Changing pose...');
 
-      const undoAction = () => {
-        setOutfitHistory(prev => {
-            const newHistory = [...prev];
-            newHistory[currentOutfitIndex] = originalLayer;
-            return newHistory;
-        });
-        setCurrentPoseIndex(prevPoseIndex);
-      };
-      setUndoStack(prev => [...prev, undoAction]);
+        const result = await generatePoseVariation(baseImageForPoseChange, poseInstruction, aspectRatio, signal);
+        const revertPoseIndex = () => {
+          if (isViewing(layerId, poseInstruction)) {
+            setCurrentPoseIndex(prevPoseIndex);
+          }
+        };
+        deliverPoseImage(`Pose: ${poseInstruction}`, layerId, poseInstruction, result, newImageUrl => {
+          setLayerPoseImage(layerId, poseInstruction, newImageUrl, describeResultImage(result, newImageUrl));
 
-    } catch (err: unknown) {
-      setError(getFriendlyErrorMessage(err, 'Failed to change pose'));
-      // Revert pose index on failure
-      setCurrentPoseIndex(prevPoseIndex);
-    } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
-    }
-  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex, currentAspectRatio, poseInstructions]);
+          const undoAction = () => {
+            setLayerPoseImage(layerId, poseInstruction, undefined);
+            revertPoseIndex();
+          };
+          setUndoStack(prev => [...prev, undoAction]);
+        }, revertPoseIndex);
+        setMessage(result.alternates ? `${listCandidates(result).length} variants ready to pick` : 'Done');
+      } catch (err: unknown) {
+        // Revert pose index on failure or cancellation, unless the user has already moved on
+        if (isViewing(layerId, poseInstruction)) {
+          setCurrentPoseIndex(prevPoseIndex);
+        }
+        throw err;
+      }
+    });
+  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex, currentAspectRatio, poseInstructions, generationJobs, generationQueue, findLayer, setLayerPoseImage, isViewing, deliverPoseImage]);
 
     // This effect runs after poseInstructions is updated and a pending index is set.
     useEffect(() => {
@@ -279,8 +562,17 @@ const App: React.FC = () => {
     }, [poseInstructions, pendingPoseIndex, handlePoseSelect]);
 
     const handleCustomPose = useCallback((prompt: string) => {
-        const trimmedPrompt = prompt.trim();
-        if (!trimmedPrompt || isLoading) return;
+        if (!prompt.trim() || isLoading) return;
+
+        // Reject unusable text up front so it never becomes a pose in the menu.
+        let trimmedPrompt: string;
+        try {
+            trimmedPrompt = preparePromptInput('poseInstruction', prompt);
+        } catch (err: unknown) {
+            setError(getFriendlyErrorMessage(err, 'Could not use this pose'));
+            return;
+        }
+        setError(null);
 
         const existingIndex = poseInstructions.indexOf(trimmedPrompt);
 
@@ -295,176 +587,181 @@ const App: React.FC = () => {
 
   const handleBackgroundChange = useCallback(async (backgroundPrompt: string) => {
     if (!displayImageUrl || isLoading) return;
+    if (!confirmWithinBudget('background', getGenerationOptions().candidateCount)) return;
 
     setError(null);
     setIsLoading(true);
+    const signal = beginGeneration();
     setLoadingMessage(`Changing background...`);
-    const originalLayer = outfitHistory[currentOutfitIndex];
+    const originalLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
     
     try {
-        const newImageUrl = await changeBackgroundImage(displayImageUrl, backgroundPrompt, currentAspectRatio);
+        const result = await changeBackgroundImage(displayImageUrl, backgroundPrompt, currentAspectRatio, signal);
         const currentPoseInstruction = poseInstructions[currentPoseIndex];
 
-        setOutfitHistory(prevHistory => {
-            const newHistory = [...prevHistory];
-            const updatedLayer = {
-                ...originalLayer,
-                poseImages: {
-                    ...originalLayer.poseImages,
-                    [currentPoseInstruction]: newImageUrl,
-                },
-            };
-            newHistory[currentOutfitIndex] = updatedLayer;
-            return newHistory;
-        });
+        deliverPoseImage('Change background', originalLayer.id, currentPoseInstruction, result, newImageUrl => {
+          setLayerPoseImage(originalLayer.id, currentPoseInstruction, newImageUrl, describeResultImage(result, newImageUrl));
 
-        const undoAction = () => {
-          setOutfitHistory(prev => {
-              const newHistory = [...prev];
-              newHistory[currentOutfitIndex] = originalLayer;
-              return newHistory;
-          });
-        };
-        setUndoStack(prev => [...prev, undoAction]);
+          const undoAction = () => {
+            setLayerPoseImage(originalLayer.id, currentPoseInstruction, originalLayer.poseImages[currentPoseInstruction], originalLayer.poseImageInfo?.[currentPoseInstruction]);
+          };
+          setUndoStack(prev => [...prev, undoAction]);
+        });
     } catch (err: unknown) {
-        setError(getFriendlyErrorMessage(err, 'Failed to change background'));
+        if (!isAbortError(err)) {
+          setError(getFriendlyErrorMessage(err, 'Failed to change background'));
+        }
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentPoseIndex, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions]);
+  }, [displayImageUrl, isLoading, currentPoseIndex, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions, setLayerPoseImage, deliverPoseImage]);
 
   const handleCustomBackgroundChange = useCallback(async (backgroundFile: File) => {
     if (!displayImageUrl || isLoading) return;
+    if (!confirmWithinBudget('background', getGenerationOptions().candidateCount)) return;
 
     setError(null);
     setIsLoading(true);
+    const signal = beginGeneration();
     setLoadingMessage(`Changing background...`);
-    const originalLayer = outfitHistory[currentOutfitIndex];
+    const originalLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
     
     try {
-        const newImageUrl = await changeBackgroundImageWithImage(displayImageUrl, backgroundFile, currentAspectRatio);
+        const result = await changeBackgroundImageWithImage(displayImageUrl, backgroundFile, currentAspectRatio, signal);
         const currentPoseInstruction = poseInstructions[currentPoseIndex];
 
-        setOutfitHistory(prevHistory => {
-            const newHistory = [...prevHistory];
-            const updatedLayer = {
-                ...originalLayer,
-                poseImages: {
-                    ...originalLayer.poseImages,
-                    [currentPoseInstruction]: newImageUrl,
-                },
-            };
-            newHistory[currentOutfitIndex] = updatedLayer;
-            return newHistory;
-        });
+        deliverPoseImage('Change background', originalLayer.id, currentPoseInstruction, result, newImageUrl => {
+          setLayerPoseImage(originalLayer.id, currentPoseInstruction, newImageUrl, describeResultImage(result, newImageUrl));
 
-        const undoAction = () => {
-          setOutfitHistory(prev => {
-              const newHistory = [...prev];
-              newHistory[currentOutfitIndex] = originalLayer;
-              return newHistory;
-          });
-        };
-        setUndoStack(prev => [...prev, undoAction]);
+          const undoAction = () => {
+            setLayerPoseImage(originalLayer.id, currentPoseInstruction, originalLayer.poseImages[currentPoseInstruction], originalLayer.poseImageInfo?.[currentPoseInstruction]);
+          };
+          setUndoStack(prev => [...prev, undoAction]);
+        });
     } catch (err: unknown) {
-        setError(getFriendlyErrorMessage(err, 'Failed to change background'));
+        if (!isAbortError(err)) {
+          setError(getFriendlyErrorMessage(err, 'Failed to change background'));
+        }
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentPoseIndex, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions]);
+  }, [displayImageUrl, isLoading, currentPoseIndex, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions, setLayerPoseImage, deliverPoseImage]);
 
   const handleAspectRatioChange = useCallback(async (newAspectRatio: string) => {
     if (!displayImageUrl || isLoading || newAspectRatio === currentAspectRatio) return;
+    if (!confirmWithinBudget('aspectRatio')) return;
 
     setError(null);
     setIsLoading(true);
+    const signal = beginGeneration();
     setLoadingMessage(`Changing aspect ratio...`);
     
     const prevAspectRatio = currentAspectRatio;
-    const originalLayer = outfitHistory[currentOutfitIndex];
+    const originalLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
     // Optimistically update UI
     setCurrentAspectRatio(newAspectRatio);
     
     try {
-        const newImageUrl = await changeImageAspectRatio(displayImageUrl, newAspectRatio);
+        const result = await changeImageAspectRatio(displayImageUrl, newAspectRatio, signal);
         const currentPoseInstruction = poseInstructions[currentPoseIndex];
 
-        setOutfitHistory(prevHistory => {
-            const newHistory = [...prevHistory];
-            const updatedLayer = {
-                ...originalLayer,
-                poseImages: {
-                    ...originalLayer.poseImages,
-                    [currentPoseInstruction]: newImageUrl,
-                },
-            };
-            newHistory[currentOutfitIndex] = updatedLayer;
-            return newHistory;
-        });
+        setLayerPoseImage(originalLayer.id, currentPoseInstruction, result.imageUrl, describeResultImage(result, result.imageUrl));
 
         const undoAction = () => {
-          setOutfitHistory(prev => {
-              const newHistory = [...prev];
-              newHistory[currentOutfitIndex] = originalLayer;
-              return newHistory;
-          });
+          setLayerPoseImage(originalLayer.id, currentPoseInstruction, originalLayer.poseImages[currentPoseInstruction], originalLayer.poseImageInfo?.[currentPoseInstruction]);
           setCurrentAspectRatio(prevAspectRatio);
         };
         setUndoStack(prev => [...prev, undoAction]);
 
     } catch (err: unknown) {
-        setError(getFriendlyErrorMessage(err, 'Failed to change aspect ratio'));
-        // Revert on failure
+        if (!isAbortError(err)) {
+          setError(getFriendlyErrorMessage(err, 'Failed to change aspect ratio'));
+        }
+        // Revert on failure or cancellation
         setCurrentAspectRatio(prevAspectRatio);
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentAspectRatio, currentPoseIndex, currentOutfitIndex, outfitHistory, poseInstructions]);
+  }, [displayImageUrl, isLoading, currentAspectRatio, currentPoseIndex, currentOutfitIndex, outfitHistory, poseInstructions, setLayerPoseImage]);
 
-  const handleImageEdit = useCallback(async (maskDataUrl: string, prompt: string) => {
+  const handleImageEdit = useCallback(async (regions: AnnotationRegion[], mode: RegionApplyMode) => {
     if (!displayImageUrl || isLoading) return;
+    // Applied one by one, every region is its own request and its own undo step.
+    const steps = mode === 'sequential' ? regions.map(region => [region]) : [regions];
+    if (!confirmWithinBudget('maskEdit', steps.length)) return;
 
     setError(null);
     setIsLoading(true);
+    const signal = beginGeneration();
     setLoadingMessage(`Applying your edits...`);
     setIsEditing(false); // Close modal, show main loader
-    const originalLayer = outfitHistory[currentOutfitIndex];
+    const originalLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
+    const currentPoseInstruction = poseInstructions[currentPoseIndex];
 
     try {
-      const newImageUrl = await editImageWithMask(displayImageUrl, maskDataUrl, prompt, currentAspectRatio);
-      const currentPoseInstruction = poseInstructions[currentPoseIndex];
-
-      setOutfitHistory(prevHistory => {
-        const newHistory = [...prevHistory];
-        const updatedLayer = {
-            ...originalLayer,
-            poseImages: {
-                ...originalLayer.poseImages,
-                [currentPoseInstruction]: newImageUrl,
-            },
+      let imageUrl = displayImageUrl;
+      let previousUrl: string | undefined = originalLayer.poseImages[currentPoseInstruction];
+      let previousInfo = originalLayer.poseImageInfo?.[currentPoseInstruction];
+      for (const [index, stepRegions] of steps.entries()) {
+        if (steps.length > 1) {
+          setLoadingMessage(`Applying edit ${index + 1} of ${steps.length}...`);
+        }
+        const result = await editImageWithRegions(imageUrl, stepRegions, currentAspectRatio, signal);
+        const info = describeResultImage(result, result.imageUrl);
+        setLayerPoseImage(originalLayer.id, currentPoseInstruction, result.imageUrl, info);
+
+        const [restoreUrl, restoreInfo] = [previousUrl, previousInfo];
+        const undoAction = () => {
+          setLayerPoseImage(originalLayer.id, currentPoseInstruction, restoreUrl, restoreInfo);
         };
-        newHistory[currentOutfitIndex] = updatedLayer;
-        return newHistory;
-      });
-      
-      const undoAction = () => {
-        setOutfitHistory(prev => {
-            const newHistory = [...prev];
-            newHistory[currentOutfitIndex] = originalLayer;
-            return newHistory;
-        });
-      };
-      setUndoStack(prev => [...prev, undoAction]);
+        setUndoStack(prev => [...prev, undoAction]);
+        imageUrl = previousUrl = result.imageUrl;
+        previousInfo = info;
+      }
     } catch (err: unknown) {
-      setError(getFriendlyErrorMessage(err, 'Failed to apply edits'));
+      if (!isAbortError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to apply edits'));
+      }
     } finally {
+      endGeneration(signal);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions]);
+  }, [displayImageUrl, isLoading, currentOutfitIndex, outfitHistory, currentAspectRatio, poseInstructions, currentPoseIndex, setLayerPoseImage]);
+
+  // Cropping happens in the browser, so it costs nothing; it is still one undo step like any generation.
+  const handleCrop = useCallback((croppedImageUrl: string, aspectRatio: string | null) => {
+    if (!displayImageUrl || isLoading) return;
+    setIsCropping(false);
+    const originalLayer: OutfitLayer = outfitHistory[currentOutfitIndex];
+    const currentPoseInstruction = poseInstructions[currentPoseIndex];
+    const previousInfo = originalLayer.poseImageInfo?.[currentPoseInstruction];
+    const prevAspectRatio = currentAspectRatio;
+
+    // The template still describes where the pixels came from; the aspect ratio check no longer applies.
+    setLayerPoseImage(originalLayer.id, currentPoseInstruction, croppedImageUrl, { promptTemplate: previousInfo?.promptTemplate });
+    if (aspectRatio) {
+      setCurrentAspectRatio(aspectRatio);
+    }
+
+    const undoAction = () => {
+      setLayerPoseImage(originalLayer.id, currentPoseInstruction, originalLayer.poseImages[currentPoseInstruction], previousInfo);
+      setCurrentAspectRatio(prevAspectRatio);
+    };
+    setUndoStack(prev => [...prev, undoAction]);
+  }, [displayImageUrl, isLoading, currentOutfitIndex, outfitHistory, poseInstructions, currentPoseIndex, currentAspectRatio, setLayerPoseImage]);
+
+  const handleAdjustmentsChange = useCallback((adjustments: ImageAdjustments) => {
+    const currentLayer = outfitHistory[currentOutfitIndex];
+    if (!currentLayer || !displayPoseInstruction) return;
+    setLayerPoseAdjustments(currentLayer.id, displayPoseInstruction, adjustments);
+  }, [outfitHistory, currentOutfitIndex, displayPoseInstruction, setLayerPoseAdjustments]);
 
   const handleSaveOutfit = useCallback(() => {
     if (!displayImageUrl || activeOutfitLayers.length <= 1) return;
@@ -472,7 +769,8 @@ const App: React.FC = () => {
     const newSavedOutfit: SavedOutfit = {
         id: `outfit-${Date.now()}`,
         previewUrl: displayImageUrl,
-        outfitLayers: [...activeOutfitLayers],
+        // Alternates are several full-size images per pose and would soon fill localStorage.
+        outfitLayers: activeOutfitLayers.map(({ alternates: _alternates, ...layer }) => layer),
         poseInstruction: poseInstructions[currentPoseIndex],
     };
 
@@ -500,7 +798,8 @@ const App: React.FC = () => {
         setPoseInstructions(prev => [...prev, outfit.poseInstruction]);
     }
 
-    setOutfitHistory(outfit.outfitLayers);
+    // Looks saved before layers had ids get fresh ones.
+    setOutfitHistory(outfit.outfitLayers.map(layer => layer.id ? layer : { ...layer, id: createLayerId() }));
     setCurrentOutfitIndex(outfit.outfitLayers.length - 1);
     setCurrentPoseIndex(poseIndex);
     setUndoStack([]);
@@ -550,6 +849,24 @@ const App: React.FC = () => {
             exit="exit"
             transition={{ duration: 0.5, ease: 'easeInOut' }}
           >
+            <div className="fixed top-4 right-4 z-40 flex items-center gap-1">
+              <button
+                onClick={() => setIsInspectorOpen(true)}
+                className="p-2 rounded-full text-gray-500 hover:text-gray-800 hover:bg-gray-200/70 transition-colors"
+                aria-label="Request inspector"
+                title="Request inspector"
+              >
+                <ActivityIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2 rounded-full text-gray-500 hover:text-gray-800 hover:bg-gray-200/70 transition-colors"
+                aria-label="Settings"
+                title="Settings"
+              >
+                <SettingsIcon className="w-5 h-5" />
+              </button>
+            </div>
             <StartScreen onModelFinalized={handleModelFinalized} />
           </motion.div>
         ) : (
@@ -564,11 +881,21 @@ const App: React.FC = () => {
           >
             <main className="flex-grow relative flex flex-col md:flex-row overflow-hidden">
               <div className="w-full h-full flex-grow flex items-center justify-center bg-white pb-16 relative">
+                <QueueTray
+                  jobs={generationJobs}
+                  onCancelJob={generationQueue.cancel}
+                  onDismissJob={generationQueue.dismiss}
+                  onClearFinished={generationQueue.clearFinished}
+                />
                 <Canvas 
                   displayImageUrl={displayImageUrl}
+                  displayImageInfo={displayImageInfo}
+                  displayAdjustments={displayAdjustments}
                   onStartOver={handleStartOver}
                   isLoading={isLoading}
                   loadingMessage={loadingMessage}
+                  onCancel={handleCancelGeneration}
+                  pendingMessage={currentViewJob?.message ?? null}
                   onSelectPose={handlePoseSelect}
                   onCustomPose={handleCustomPose}
                   poseInstructions={poseInstructions}
@@ -581,7 +908,15 @@ const App: React.FC = () => {
                   onUndo={handleUndo}
                   canUndo={undoStack.length > 0}
                   onEdit={() => setIsEditing(true)}
+                  onCrop={() => setIsCropping(true)}
                   canEdit={!!displayImageUrl && !isLoading}
+                  onOpenSettings={() => setIsSettingsOpen(true)}
+                  onOpenInspector={() => setIsInspectorOpen(true)}
+                  candidateChoice={candidateChoices[0] ?? null}
+                  onPickCandidate={resolveCandidateChoice}
+                  onDiscardCandidates={() => resolveCandidateChoice(null)}
+                  alternateCount={displayAlternates.length}
+                  onShowAlternates={handleShowAlternates}
                 />
               </div>
 
@@ -610,6 +945,7 @@ const App: React.FC = () => {
                     <WardrobePanel
                       onGarmentSelect={handleGarmentSelect}
                       activeGarmentIds={activeGarmentIds}
+                      queuedGarmentIds={queuedGarmentIds}
                       isLoading={isLoading}
                       wardrobe={wardrobe}
                       onClearWardrobe={handleClearWardrobe}
@@ -627,6 +963,13 @@ const App: React.FC = () => {
                       isCollapsed={isBackgroundPanelCollapsed}
                       onToggleCollapse={() => setIsBackgroundPanelCollapsed(p => !p)}
                     />
+                    <AdjustmentPanel
+                      adjustments={displayAdjustments}
+                      onAdjustmentsChange={handleAdjustmentsChange}
+                      disabled={!displayPoseInstruction}
+                      isCollapsed={isAdjustmentPanelCollapsed}
+                      onToggleCollapse={() => setIsAdjustmentPanelCollapsed(p => !p)}
+                    />
                   </div>
               </aside>
             </main>
@@ -642,6 +985,12 @@ const App: React.FC = () => {
                   {loadingMessage && (
                     <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="mt-6 px-6 py-2 text-sm font-semibold text-gray-700 bg-white/60 border border-gray-300/80 rounded-full hover:bg-white hover:border-gray-400 active:scale-95 transition-all"
+                  >
+                    Cancel
+                  </button>
                 </motion.div>
               )}
             </AnimatePresence>
@@ -660,6 +1009,19 @@ const App: React.FC = () => {
               />
           )}
       </AnimatePresence>
+      <AnimatePresence>
+          {isCropping && (
+              <CropPanel
+                  isOpen={isCropping}
+                  onClose={() => setIsCropping(false)}
+                  onApply={handleCrop}
+                  imageUrl={displayImageUrl!}
+                  currentAspectRatio={currentAspectRatio}
+              />
+          )}
+      </AnimatePresence>
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <DebugModal isOpen={isInspectorOpen} onClose={() => setIsInspectorOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageAdjustments } from '../types';
+import { AdjustmentRenderer, createAdjustmentRenderer } from '../lib/imageAdjustments';
+
+interface AdjustedImageProps {
+  imageUrl: string;
+  adjustments: ImageAdjustments;
+  alt: string;
+  className?: string;
+}
+
+// Shows an image through the adjustment shader. Falls back to the plain image when WebGL is unavailable.
+const AdjustedImage: React.FC<AdjustedImageProps> = ({ imageUrl, adjustments, alt, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const rendererRef = useRef<AdjustmentRenderer | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isUnsupported, setIsUnsupported] = useState(false);
+
+  // Every mount gets its own canvas: dispose() releases the WebGL context, and a canvas
+  // whose context was released cannot be given a working one again.
+  useEffect(() => {
+    const canvas = document.createElement('canvas');
+    canvas.setAttribute('role', 'img');
+    try {
+      rendererRef.current = createAdjustmentRenderer(canvas);
+    } catch (e) {
+      console.error("Failed to set up image adjustments", e);
+      setIsUnsupported(true);
+      return;
+    }
+    canvasRef.current = canvas;
+    containerRef.current?.appendChild(canvas);
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+      canvasRef.current = null;
+      canvas.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const nextImage = new Image();
+    nextImage.onload = () => {
+      if (isCurrent) setImage(nextImage);
+    };
+    nextImage.src = imageUrl;
+    return () => { isCurrent = false; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (image) {
+      rendererRef.current?.render(image, adjustments);
+    }
+  }, [image, adjustments]);
+
+  // The canvas is blank until the image has loaded and been drawn once, so it stays hidden until then.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.setAttribute('aria-label', alt);
+    canvas.className = `${className ?? ''} ${image ? '' : 'invisible'}`;
+  }, [alt, className, image]);
+
+  if (isUnsupported) {
+    return <img src={imageUrl} alt={alt} className={className} />;
+  }
+  return <div ref={containerRef} className="contents" />;
+};
+
+export default AdjustedImage;
@@ -2,7 +2,93 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { ChevronUpIcon, ChevronDownIcon } from './icons';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { ImageAdjustments } from '../types';
+import { ADJUSTMENT_CONTROLS, isNeutralAdjustments, NEUTRAL_ADJUSTMENTS } from '../lib/imageAdjustments';
+
+interface AdjustmentPanelProps {
+  adjustments: ImageAdjustments | undefined;
+  onAdjustmentsChange: (adjustments: ImageAdjustments) => void;
+  disabled: boolean;
+  isCollapsed: boolean;
+  onToggleCollapse: () => void;
+}
+
+const formatValue = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ adjustments = NEUTRAL_ADJUSTMENTS, onAdjustmentsChange, disabled, isCollapsed, onToggleCollapse }) => {
+  const handleChange = (id: keyof ImageAdjustments, value: number) => {
+    onAdjustmentsChange({ ...adjustments, [id]: value });
+  };
+
+  return (
+    <div className="pt-6 border-t border-gray-400/50">
+      <div className={`flex items-center justify-between ${!isCollapsed ? 'mb-4' : ''}`}>
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">Adjust</h2>
+        <button
+          onClick={onToggleCollapse}
+          className="p-1 rounded-full text-gray-500 hover:bg-gray-200/60 transition-colors"
+          aria-label={isCollapsed ? 'Expand adjustments' : 'Collapse adjustments'}
+        >
+          {isCollapsed ? <ChevronDownIcon className="w-6 h-6" /> : <ChevronUpIcon className="w-6 h-6" />}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {!isCollapsed && (
+          <motion.div
+            key="adjustment-content"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: 'easeInOut' }}
+            className="overflow-hidden"
+          >
+            <div className="flex flex-col gap-4">
+              <p className="text-xs text-gray-500">
+                Tunes the current pose on your device, without a generation. The original image is kept, and new generations start from it.
+              </p>
+              {ADJUSTMENT_CONTROLS.map(control => (
+                <div key={control.id}>
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor={`adjustment-${control.id}`} className="text-sm font-medium text-gray-700">{control.label}</label>
+                    <button
+                      onClick={() => handleChange(control.id, 0)}
+                      disabled={disabled || adjustments[control.id] === 0}
+                      className="text-xs font-mono text-gray-500 hover:text-gray-800 disabled:hover:text-gray-500 disabled:cursor-default"
+                      title={`Reset ${control.label.toLowerCase()}`}
+                    >
+                      {formatValue(adjustments[control.id])}
+                    </button>
+                  </div>
+                  <input
+                    id={`adjustment-${control.id}`}
+                    type="range"
+                    min={control.min}
+                    max={control.max}
+                    value={adjustments[control.id]}
+                    onChange={(e) => handleChange(control.id, Number(e.target.value))}
+                    onDoubleClick={() => handleChange(control.id, 0)}
+                    disabled={disabled}
+                    className="w-full accent-gray-800 disabled:opacity-50"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() => onAdjustmentsChange(NEUTRAL_ADJUSTMENTS)}
+                disabled={disabled || isNeutralAdjustments(adjustments)}
+                className="w-full text-center bg-white border border-gray-300 text-gray-700 font-semibold py-2 px-4 rounded-lg transition-colors duration-200 ease-in-out hover:bg-gray-100 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reset All
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
 
-// This component is not used in the current application flow.
-const AdjustmentPanel = () => null;
 export default AdjustmentPanel;
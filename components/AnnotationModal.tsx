@@ -5,62 +5,164 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { XIcon, BrushIcon, Trash2Icon, UndoIcon, RedoIcon, MinusIcon, PlusIcon } from './icons';
+import { XIcon, Trash2Icon, UndoIcon, RedoIcon, MinusIcon, PlusIcon, ContrastIcon, EyeIcon, EyeOffIcon } from './icons';
+import Toolbar from './Toolbar';
+import ToolOptions from './ToolOptions';
 import Spinner from './Spinner';
+import { PROMPT_INPUT_LIMITS } from '../services/promptSafety';
+import { segmentImageAt } from '../services/geminiService';
+import { confirmWithinBudget, getFriendlyErrorMessage, isAbortError } from '../lib/utils';
+import { addMaskImage, captureMask, createBlankMask, describeMaskLocation, drawMaskShape, getMaskTool, invertMask, maskToImageData, MaskSnapshot, MaskToolId, Point } from '../lib/maskTools';
+import type { AnnotationRegion, RegionApplyMode } from '../types';
 
 interface AnnotationModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onApply: (maskDataUrl: string, prompt: string) => void;
+    onApply: (regions: AnnotationRegion[], mode: RegionApplyMode) => void;
     baseImageUrl: string;
     isLoading: boolean;
 }
 
-interface Point {
-    x: number;
-    y: number;
+// Undo states kept per region. Each one is a full-resolution snapshot of the mask,
+// so large images keep fewer of them to stay within MAX_HISTORY_BYTES.
+const MAX_HISTORY_STATES = 20;
+const MAX_HISTORY_BYTES = 32 * 1024 * 1024;
+const getHistoryLimit = ({ values }: MaskSnapshot) =>
+    Math.min(MAX_HISTORY_STATES, Math.max(2, Math.floor(MAX_HISTORY_BYTES / values.length)));
+
+const REGION_COLORS = [
+    { name: 'Red', value: '#f43f5e' },
+    { name: 'Blue', value: '#38bdf8' },
+    { name: 'Green', value: '#a3e635' },
+    { name: 'Amber', value: '#f59e0b' },
+    { name: 'Purple', value: '#c084fc' },
+];
+
+// One selection and the change to make there. Each region has its own mask and
+// undo history; all of them are shown over the image in their colour.
+interface MaskRegion {
+    id: string;
+    color: typeof REGION_COLORS[number];
+    prompt: string;
+    visible: boolean;
+    history: MaskSnapshot[];
+    historyIndex: number;
 }
 
+const createRegion = (id: string, blankMask: MaskSnapshot, usedColors: string[]): MaskRegion => ({
+    id,
+    color: REGION_COLORS.find(color => !usedColors.includes(color.value)) ?? REGION_COLORS[0],
+    prompt: '',
+    visible: true,
+    history: [blankMask],
+    historyIndex: 0,
+});
+
+const APPLY_MODES: { id: RegionApplyMode; label: string; description: string }[] = [
+    { id: 'combined', label: 'Together', description: 'All areas are edited in a single request. Each instruction has its own length limit.' },
+    { id: 'sequential', label: 'One by one', description: 'Each area is edited in its own request, in order. Every step can be undone separately.' },
+];
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// A two-finger pinch (which also pans) or a space/middle-button drag.
+type ViewGesture =
+    | { kind: 'pinch'; startDistance: number; startZoom: number; center: Point; anchor: Point }
+    | { kind: 'pan'; startPan: Point; startPointer: Point };
+
+// How close (in screen pixels) a click must be to the first corner to close a polygon.
+const POLYGON_CLOSE_DISTANCE_PX = 12;
+
 const AnnotationModal: React.FC<AnnotationModalProps> = ({ isOpen, onClose, onApply, baseImageUrl, isLoading }) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
     const imageRef = useRef<HTMLImageElement>(null);
-    const [prompt, setPrompt] = useState('');
+    const canvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+    const initializedCanvasesRef = useRef(new WeakSet<HTMLCanvasElement>());
+    const blankMaskRef = useRef<MaskSnapshot | null>(null);
+    // The last snapshot put on a canvas, expanded. Shapes in progress redraw over the same
+    // state on every pointer move, so it is expanded once rather than for each move.
+    const expandedMaskRef = useRef<{ snapshot: MaskSnapshot; imageData: ImageData } | null>(null);
+    const regionCounterRef = useRef(0);
+    const [regions, setRegions] = useState<MaskRegion[]>([]);
+    const [activeRegionId, setActiveRegionId] = useState('');
+    const [applyMode, setApplyMode] = useState<RegionApplyMode>('combined');
+    const [activeToolId, setActiveToolId] = useState<MaskToolId>('brush');
     const [brushSize, setBrushSize] = useState(20);
+    const [softness, setSoftness] = useState(0);
+    // Points of the shape being drawn; a polygon keeps collecting them across clicks.
+    const pendingPointsRef = useRef<Point[]>([]);
     const [isDrawing, setIsDrawing] = useState(false);
-    const [history, setHistory] = useState<ImageData[]>([]);
-    const [historyIndex, setHistoryIndex] = useState(-1);
     const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+    const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+    // Pointers currently down, by id, in client coordinates.
+    const pointersRef = useRef(new Map<number, Point>());
+    const gestureRef = useRef<ViewGesture | null>(null);
+    const tapPointRef = useRef<Point | null>(null);
+    const [isSegmenting, setIsSegmenting] = useState(false);
+    const [segmentError, setSegmentError] = useState<string | null>(null);
+    const segmentControllerRef = useRef<AbortController | null>(null);
+
+    const activeTool = getMaskTool(activeToolId);
+    // While an area is being selected, the masks must not change underneath it.
+    const isBusy = isLoading || isSegmenting;
+    const activeRegion = regions.find(region => region.id === activeRegionId);
+    const history = activeRegion?.history ?? [];
+    const historyIndex = activeRegion?.historyIndex ?? -1;
+    const readyRegions = regions.filter(region => region.prompt.trim() && region.historyIndex > 0);
 
-    const getCanvasContext = useCallback(() => canvasRef.current?.getContext('2d'), []);
+    const getActiveCanvas = () => canvasesRef.current.get(activeRegionId);
+    const getCanvasContext = () => getActiveCanvas()?.getContext('2d');
 
-    const initializeCanvas = useCallback(() => {
+    const updateRegion = useCallback((id: string, changes: Partial<MaskRegion>) => {
+        setRegions(prev => prev.map(region => region.id === id ? { ...region, ...changes } : region));
+    }, []);
+
+    const nextRegionId = () => `region-${++regionCounterRef.current}`;
+
+    // Masks are drawn at the base image's natural resolution and scaled to fit the
+    // display with CSS, so the exported masks line up pixel for pixel with the image
+    // and strokes survive window resizes and zooming.
+    const initializeRegions = useCallback(() => {
         const image = imageRef.current;
-        const canvas = canvasRef.current;
-        if (!image || !canvas || !image.complete || image.naturalWidth === 0) {
+        if (!image || !image.complete || image.naturalWidth === 0) {
             return;
         }
 
-        const { clientWidth: width, clientHeight: height } = image;
-        if (width === 0 || height === 0) return;
+        blankMaskRef.current = createBlankMask(image.naturalWidth, image.naturalHeight);
+        expandedMaskRef.current = null;
 
-        // Avoid re-initializing if size is the same, preserving user's drawing on resize
-        if (canvas.width === width && canvas.height === height) {
-            return;
-        }
+        pendingPointsRef.current = [];
+        canvasesRef.current.clear();
+        const region = createRegion(nextRegionId(), blankMaskRef.current, []);
+        setRegions([region]);
+        setActiveRegionId(region.id);
+    }, []);
 
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = getCanvasContext();
-        if (ctx) {
-            ctx.fillStyle = 'black';
-            ctx.fillRect(0, 0, width, height);
-            const initialImageData = ctx.getImageData(0, 0, width, height);
-            setHistory([initialImageData]);
-            setHistoryIndex(0);
+    const putMask = (ctx: CanvasRenderingContext2D, snapshot: MaskSnapshot) => {
+        let expanded = expandedMaskRef.current;
+        if (expanded?.snapshot !== snapshot) {
+            expanded = { snapshot, imageData: maskToImageData(snapshot) };
+            expandedMaskRef.current = expanded;
         }
-    }, [getCanvasContext]);
+        ctx.putImageData(expanded.imageData, 0, 0);
+    };
 
-    // Effect for canvas initialization and resizing
+    // A region's canvas gets its mask once, when it is first mounted.
+    const registerCanvas = (region: MaskRegion) => (element: HTMLCanvasElement | null) => {
+        if (!element) return;
+        canvasesRef.current.set(region.id, element);
+        if (initializedCanvasesRef.current.has(element)) return;
+        initializedCanvasesRef.current.add(element);
+        const state = region.history[region.historyIndex];
+        element.width = state.width;
+        element.height = state.height;
+        const ctx = element.getContext('2d');
+        if (ctx) putMask(ctx, state);
+    };
+
+    // Effect for canvas initialization when the modal opens or the image changes
     useEffect(() => {
         if (!isOpen) {
             return;
@@ -70,134 +172,359 @@ const AnnotationModal: React.FC<AnnotationModalProps> = ({ isOpen, onClose, onAp
         if (!image) return;
         
         // Reset state when modal opens
-        setPrompt('');
         setZoom(1);
+        setPan({ x: 0, y: 0 });
         
-        image.addEventListener('load', initializeCanvas);
-        window.addEventListener('resize', initializeCanvas);
+        image.addEventListener('load', initializeRegions);
 
         if (image.complete) {
-            initializeCanvas();
+            initializeRegions();
         }
 
         return () => {
-            image.removeEventListener('load', initializeCanvas);
-            window.removeEventListener('resize', initializeCanvas);
+            image.removeEventListener('load', initializeRegions);
+            segmentControllerRef.current?.abort();
+        };
+    }, [isOpen, baseImageUrl, initializeRegions]);
+
+    // Holding space turns dragging into panning, as in most image editors.
+    useEffect(() => {
+        if (!isOpen) return;
+        const isTyping = (target: EventTarget | null) => target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            e.preventDefault();
+            setIsSpaceHeld(true);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space') setIsSpaceHeld(false);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [isOpen, baseImageUrl, initializeCanvas]);
+    }, [isOpen]);
 
-    const saveHistory = useCallback(() => {
+    const saveHistory = () => {
         const ctx = getCanvasContext();
-        if (!ctx || !canvasRef.current) return;
-        const imageData = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
+        if (!ctx) return;
+        const snapshot = captureMask(ctx);
         
-        setHistory(prev => {
-            const newHistory = prev.slice(0, historyIndex + 1);
-            newHistory.push(imageData);
-            return newHistory;
-        });
-        setHistoryIndex(prev => prev + 1);
-    }, [getCanvasContext, historyIndex]);
+        const newHistory = history.slice(0, historyIndex + 1);
+        newHistory.push(snapshot);
+        // Drop the oldest strokes but keep the blank state for Clear.
+        const limit = getHistoryLimit(snapshot);
+        if (newHistory.length > limit) {
+            newHistory.splice(1, newHistory.length - limit);
+        }
+        updateRegion(activeRegionId, { history: newHistory, historyIndex: newHistory.length - 1 });
+    };
 
-    const handleUndo = useCallback(() => {
+    const handleUndo = () => {
         if (historyIndex <= 0) return;
 
+        pendingPointsRef.current = [];
         const newIndex = historyIndex - 1;
         const ctx = getCanvasContext();
         if (ctx) {
-            ctx.putImageData(history[newIndex], 0, 0);
+            putMask(ctx, history[newIndex]);
         }
-        setHistoryIndex(newIndex);
-    }, [getCanvasContext, history, historyIndex]);
+        updateRegion(activeRegionId, { historyIndex: newIndex });
+    };
 
-    const handleRedo = useCallback(() => {
+    const handleRedo = () => {
         if (historyIndex >= history.length - 1) return;
 
+        pendingPointsRef.current = [];
         const newIndex = historyIndex + 1;
         const ctx = getCanvasContext();
         if (ctx) {
-            ctx.putImageData(history[newIndex], 0, 0);
+            putMask(ctx, history[newIndex]);
         }
-        setHistoryIndex(newIndex);
-    }, [getCanvasContext, history, historyIndex]);
+        updateRegion(activeRegionId, { historyIndex: newIndex });
+    };
 
-    const getPoint = (e: React.MouseEvent | React.TouchEvent): Point | null => {
-        const canvas = canvasRef.current;
+    // Maps the pointer into mask pixels. The canvas rect already includes zoom and pan.
+    const getPoint = (e: React.PointerEvent): Point | null => {
+        const canvas = getActiveCanvas();
         if (!canvas) return null;
         const rect = canvas.getBoundingClientRect();
-        
-        const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-        const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
 
         const scaleX = canvas.width / rect.width;
         const scaleY = canvas.height / rect.height;
 
         return {
-            x: (clientX - rect.left) * scaleX,
-            y: (clientY - rect.top) * scaleY,
+            x: (e.clientX - rect.left) * scaleX,
+            y: (e.clientY - rect.top) * scaleY,
+            // Mice and fingers report a fixed pressure, so only a pen's is used.
+            pressure: e.pointerType === 'pen' ? e.pressure : undefined,
         };
     };
 
-    const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-        e.preventDefault();
-        const point = getPoint(e);
-        if (!point || isLoading) return;
-        
-        setIsDrawing(true);
+    // Converts sizes set in screen pixels into mask pixels at the current zoom.
+    const getDisplayScale = () => {
+        const canvas = getActiveCanvas();
+        if (!canvas) return 1;
+        return canvas.width / canvas.getBoundingClientRect().width;
+    };
+
+    // Redraws the shape in progress on top of the last saved state of the mask.
+    const renderPendingShape = (points: Point[], preview = false) => {
         const ctx = getCanvasContext();
-        const canvas = canvasRef.current;
-        if (!ctx || !canvas) return;
-        
-        const rect = canvas.getBoundingClientRect();
-        const scale = canvas.width / rect.width;
+        const savedState = history[historyIndex];
+        if (!ctx || !savedState) return;
+        putMask(ctx, savedState);
+        const scale = getDisplayScale();
+        drawMaskShape(ctx, activeTool, points, { lineWidth: brushSize * scale, softness: softness * scale }, preview);
+    };
 
-        ctx.lineWidth = brushSize * scale;
-        ctx.strokeStyle = 'white';
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.globalCompositeOperation = 'source-over';
-        
-        ctx.beginPath();
-        ctx.moveTo(point.x, point.y);
+    const commitShape = (points: Point[]) => {
+        pendingPointsRef.current = [];
+        renderPendingShape(points);
+        saveHistory();
     };
 
-    const draw = (e: React.MouseEvent | React.TouchEvent) => {
-        e.preventDefault();
-        if (!isDrawing || isLoading) return;
-        const point = getPoint(e);
+    const cancelPendingShape = () => {
+        if (pendingPointsRef.current.length === 0) return;
+        pendingPointsRef.current = [];
+        const ctx = getCanvasContext();
+        if (ctx && history[historyIndex]) {
+            putMask(ctx, history[historyIndex]);
+        }
+    };
+
+    // Asks for the area under the tap and adds it to the active region's mask.
+    const selectAreaAt = async (point: Point) => {
+        const canvas = getActiveCanvas();
         const ctx = getCanvasContext();
-        if (point && ctx) {
-            ctx.lineTo(point.x, point.y);
-            ctx.stroke();
+        if (!canvas || !ctx || !confirmWithinBudget('segment')) return;
+
+        const controller = new AbortController();
+        segmentControllerRef.current = controller;
+        setIsSegmenting(true);
+        setSegmentError(null);
+        try {
+            const maskUrl = await segmentImageAt(baseImageUrl, { x: point.x / canvas.width, y: point.y / canvas.height }, controller.signal);
+            await addMaskImage(ctx, maskUrl);
+            saveHistory();
+        } catch (err: unknown) {
+            if (!isAbortError(err)) {
+                setSegmentError(getFriendlyErrorMessage(err, 'Could not select that area'));
+            }
+        } finally {
+            segmentControllerRef.current = null;
+            setIsSegmenting(false);
         }
     };
+
+    const startDrawing = (e: React.PointerEvent) => {
+        const point = getPoint(e);
+        if (!point || isBusy) return;
+
+        if (activeTool.input === 'tap') {
+            // Selected when the pointer is released, so a tap that turns into a pinch selects nothing.
+            tapPointRef.current = point;
+            return;
+        }
+
+        if (activeTool.input === 'click') {
+            const points = pendingPointsRef.current;
+            const closeDistance = POLYGON_CLOSE_DISTANCE_PX * getDisplayScale();
+            if (points.length >= 3 && Math.hypot(point.x - points[0].x, point.y - points[0].y) <= closeDistance) {
+                commitShape(points);
+                return;
+            }
+            pendingPointsRef.current = [...points, point];
+            renderPendingShape(pendingPointsRef.current, true);
+            return;
+        }
+
+        setIsDrawing(true);
+        pendingPointsRef.current = [point];
+        renderPendingShape(pendingPointsRef.current);
+    };
+
+    const draw = (e: React.PointerEvent) => {
+        if (isBusy) return;
+        const point = getPoint(e);
+        if (!point) return;
+
+        if (activeTool.input === 'click') {
+            // Show the next edge of the polygon following the pointer.
+            if (pendingPointsRef.current.length > 0) {
+                renderPendingShape([...pendingPointsRef.current, point], true);
+            }
+            return;
+        }
+
+        if (!isDrawing) return;
+        pendingPointsRef.current.push(point);
+        renderPendingShape(pendingPointsRef.current);
+    };
     
     const stopDrawing = () => {
+        if (tapPointRef.current) {
+            void selectAreaAt(tapPointRef.current);
+            tapPointRef.current = null;
+        }
         if (!isDrawing) return;
         setIsDrawing(false);
-        const ctx = getCanvasContext();
-        if(ctx) {
-            ctx.closePath();
-            saveHistory();
+        commitShape(pendingPointsRef.current);
+    };
+
+    // Drops a stroke that turned out to be the first finger of a pinch.
+    const abandonStroke = () => {
+        tapPointRef.current = null;
+        if (!isDrawing) return;
+        setIsDrawing(false);
+        cancelPendingShape();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const pointers: Map<number, Point> = pointersRef.current;
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        if (e.pointerType === 'touch' && pointers.size === 2) {
+            abandonStroke();
+            const [first, second] = Array.from(pointers.values());
+            const midpoint = { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+            const rect = e.currentTarget.getBoundingClientRect();
+            // The view's centre without pan; the content point under the fingers stays under them.
+            const center = { x: rect.left + rect.width / 2 - pan.x, y: rect.top + rect.height / 2 - pan.y };
+            gestureRef.current = {
+                kind: 'pinch',
+                startDistance: Math.max(1, Math.hypot(second.x - first.x, second.y - first.y)),
+                startZoom: zoom,
+                center,
+                anchor: { x: (midpoint.x - center.x - pan.x) / zoom, y: (midpoint.y - center.y - pan.y) / zoom },
+            };
+            return;
+        }
+        if (pointers.size > 1) return;
+
+        if (isSpaceHeld || e.button === 1) {
+            gestureRef.current = { kind: 'pan', startPan: pan, startPointer: { x: e.clientX, y: e.clientY } };
+            return;
+        }
+        if (e.button === 0) {
+            startDrawing(e);
         }
     };
 
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const pointers: Map<number, Point> = pointersRef.current;
+        if (pointers.has(e.pointerId)) {
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        }
+        const gesture = gestureRef.current;
+        if (gesture?.kind === 'pinch') {
+            const [first, second] = Array.from(pointers.values());
+            if (!first || !second) return;
+            const nextZoom = clampZoom(gesture.startZoom * Math.hypot(second.x - first.x, second.y - first.y) / gesture.startDistance);
+            const midpoint = { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+            setZoom(nextZoom);
+            setPan({
+                x: midpoint.x - gesture.center.x - gesture.anchor.x * nextZoom,
+                y: midpoint.y - gesture.center.y - gesture.anchor.y * nextZoom,
+            });
+        } else if (gesture?.kind === 'pan') {
+            setPan({
+                x: gesture.startPan.x + e.clientX - gesture.startPointer.x,
+                y: gesture.startPan.y + e.clientY - gesture.startPointer.y,
+            });
+        } else if (pointers.size <= 1) {
+            draw(e);
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        const pointers: Map<number, Point> = pointersRef.current;
+        pointers.delete(e.pointerId);
+        const gesture = gestureRef.current;
+        if (gesture) {
+            if (gesture.kind === 'pan' || pointers.size < 2) {
+                gestureRef.current = null;
+            }
+            return;
+        }
+        if (e.type === 'pointercancel') {
+            abandonStroke();
+        } else {
+            stopDrawing();
+        }
+    };
+
+    const handleDoubleClick = () => {
+        if (activeTool.input === 'click' && pendingPointsRef.current.length >= 3) {
+            commitShape(pendingPointsRef.current);
+        }
+    };
+
+    const handleSelectTool = (id: MaskToolId) => {
+        cancelPendingShape();
+        setActiveToolId(id);
+    };
+
+    const handleInvert = () => {
+        const ctx = getCanvasContext();
+        if (!ctx || isBusy) return;
+        cancelPendingShape();
+        invertMask(ctx);
+        saveHistory();
+    };
+
     const handleClear = () => {
-        const canvas = canvasRef.current;
         const ctx = getCanvasContext();
-        if (canvas && ctx && history.length > 0) {
-            ctx.putImageData(history[0], 0, 0); // Revert to initial black state
-            setHistory(prev => [prev[0]]); // Keep only initial state
-            setHistoryIndex(0);
+        if (ctx && history.length > 0) {
+            pendingPointsRef.current = [];
+            putMask(ctx, history[0]); // Revert to initial black state
+            updateRegion(activeRegionId, { history: [history[0]], historyIndex: 0 }); // Keep only initial state
+        }
+    };
+
+    const handleAddRegion = () => {
+        const blankMask = blankMaskRef.current;
+        if (!blankMask || regions.length >= REGION_COLORS.length) return;
+        cancelPendingShape();
+        const region = createRegion(nextRegionId(), blankMask, regions.map(existing => existing.color.value));
+        setRegions(prev => [...prev, region]);
+        setActiveRegionId(region.id);
+    };
+
+    const handleSelectRegion = (id: string) => {
+        if (id === activeRegionId) return;
+        cancelPendingShape();
+        setActiveRegionId(id);
+        updateRegion(id, { visible: true });
+    };
+
+    const handleRemoveRegion = (id: string) => {
+        if (regions.length <= 1) return;
+        cancelPendingShape();
+        canvasesRef.current.delete(id);
+        const remaining = regions.filter(region => region.id !== id);
+        setRegions(remaining);
+        if (id === activeRegionId) {
+            setActiveRegionId(remaining[0].id);
         }
     };
 
     const handleApply = () => {
-        if (!prompt.trim() || isLoading) return;
-        const canvas = canvasRef.current;
-        if (canvas) {
-            const maskDataUrl = canvas.toDataURL('image/png');
-            onApply(maskDataUrl, prompt);
+        if (readyRegions.length === 0 || isBusy) return;
+        cancelPendingShape();
+        const annotated = readyRegions.flatMap((region): AnnotationRegion[] => {
+            const canvas = canvasesRef.current.get(region.id);
+            const ctx = canvas?.getContext('2d');
+            if (!canvas || !ctx) return [];
+            const location = describeMaskLocation(ctx.getImageData(0, 0, canvas.width, canvas.height));
+            return location ? [{ maskDataUrl: canvas.toDataURL('image/png'), prompt: region.prompt, location }] : [];
+        });
+        if (annotated.length > 0) {
+            onApply(annotated, applyMode);
         }
     };
     
@@ -229,44 +556,67 @@ const AnnotationModal: React.FC<AnnotationModalProps> = ({ isOpen, onClose, onAp
                         {/* Main Content */}
                         <div className="flex-grow flex flex-col md:flex-row gap-4 p-4 overflow-hidden">
                             {/* Image & Canvas */}
-                            <div className="flex-grow flex items-center justify-center relative min-h-[300px] md:min-h-0 overflow-auto bg-black/20 rounded-lg">
+                            <div className="flex-grow flex items-center justify-center relative min-h-[300px] md:min-h-0 overflow-hidden bg-black/20 rounded-lg">
                                 <div
-                                    className="relative transition-transform duration-300"
-                                    style={{ transform: `scale(${zoom})`, transformOrigin: 'center center' }}
+                                    className={`relative ${gestureRef.current ? '' : 'transition-transform duration-300'}`}
+                                    style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: 'center center' }}
                                 >
                                     <img
                                         ref={imageRef}
                                         src={baseImageUrl}
                                         alt="Image to edit"
-                                        className="max-w-full max-h-full object-contain select-none pointer-events-none"
+                                        className="block max-w-full max-h-full object-contain select-none pointer-events-none"
                                         crossOrigin="anonymous"
                                     />
-                                    <canvas
-                                        ref={canvasRef}
-                                        className={`absolute top-0 left-0 mix-blend-screen opacity-50 ${isLoading ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
-                                        onMouseDown={startDrawing}
-                                        onMouseMove={draw}
-                                        onMouseUp={stopDrawing}
-                                        onMouseLeave={stopDrawing}
-                                        onTouchStart={startDrawing}
-                                        onTouchMove={draw}
-                                        onTouchEnd={stopDrawing}
+                                    {/* Each mask is black and white; multiplying it with its colour and screening the result over the photo tints only the selection. */}
+                                    {regions.map(region => (
+                                        <div
+                                            key={region.id}
+                                            className={`absolute inset-0 mix-blend-screen pointer-events-none ${region.visible ? '' : 'hidden'} ${region.id === activeRegionId ? 'opacity-70' : 'opacity-40'}`}
+                                            style={{ isolation: 'isolate' }}
+                                        >
+                                            <canvas ref={registerCanvas(region)} className="absolute inset-0 w-full h-full" />
+                                            <div className="absolute inset-0 mix-blend-multiply" style={{ backgroundColor: region.color.value }} />
+                                        </div>
+                                    ))}
+                                    <div
+                                        className={`absolute inset-0 touch-none ${isBusy ? 'cursor-not-allowed' : isSpaceHeld ? 'cursor-grab active:cursor-grabbing' : 'cursor-crosshair'}`}
+                                        onPointerDown={handlePointerDown}
+                                        onPointerMove={handlePointerMove}
+                                        onPointerUp={handlePointerUp}
+                                        onPointerCancel={handlePointerUp}
+                                        onDoubleClick={handleDoubleClick}
                                     />
                                 </div>
+                                {isSegmenting && (
+                                    <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-gray-800/90 backdrop-blur-sm px-4 py-2 rounded-lg text-sm">
+                                        <Spinner /> Finding the area...
+                                        <button onClick={() => segmentControllerRef.current?.abort()} className="text-gray-300 hover:text-white underline">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                )}
                                 {/* Zoom Controls */}
                                 <div className="absolute bottom-4 right-4 md:left-4 flex items-center gap-1 bg-gray-800/80 backdrop-blur-sm p-1 rounded-lg">
                                     <button 
-                                        onClick={() => setZoom(z => Math.max(0.5, z - 0.25))}
-                                        disabled={zoom <= 0.5 || isLoading}
+                                        onClick={() => setZoom(z => clampZoom(z - 0.25))}
+                                        disabled={zoom <= MIN_ZOOM || isBusy}
                                         className="p-2 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
                                         aria-label="Zoom out"
                                     >
                                         <MinusIcon className="w-5 h-5" />
                                     </button>
-                                    <span className="w-12 text-center text-sm font-medium tabular-nums text-white">{Math.round(zoom * 100)}%</span>
+                                    <button
+                                        onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}
+                                        className="w-12 text-center text-sm font-medium tabular-nums text-white rounded-md hover:bg-gray-700"
+                                        aria-label="Reset zoom and position"
+                                        title="Reset zoom and position"
+                                    >
+                                        {Math.round(zoom * 100)}%
+                                    </button>
                                     <button 
-                                        onClick={() => setZoom(z => Math.min(3, z + 0.25))}
-                                        disabled={zoom >= 3 || isLoading}
+                                        onClick={() => setZoom(z => clampZoom(z + 0.25))}
+                                        disabled={zoom >= MAX_ZOOM || isBusy}
                                         className="p-2 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
                                         aria-label="Zoom in"
                                     >
@@ -276,54 +626,112 @@ const AnnotationModal: React.FC<AnnotationModalProps> = ({ isOpen, onClose, onAp
                             </div>
 
                             {/* Controls */}
-                            <div className="w-full md:w-80 flex flex-col gap-6 flex-shrink-0">
+                            <div className="w-full md:w-80 flex flex-col gap-6 flex-shrink-0 md:overflow-y-auto">
                                 <div className="bg-gray-800/70 p-4 rounded-lg">
                                     <h3 className="text-base font-semibold mb-3 text-gray-300">1. Draw to select an area</h3>
                                     <div className="flex flex-col gap-4">
-                                        <div className="flex items-center gap-3">
-                                            <BrushIcon className="w-5 h-5 text-gray-400" />
-                                            <span className="text-sm flex-shrink-0">Brush Size</span>
-                                            <input
-                                                type="range"
-                                                min="5"
-                                                max="100"
-                                                value={brushSize}
-                                                onChange={(e) => setBrushSize(Number(e.target.value))}
-                                                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-                                                disabled={isLoading}
-                                            />
-                                        </div>
-                                        <div className="grid grid-cols-3 gap-2">
-                                            <button onClick={handleUndo} disabled={historyIndex <= 0 || isLoading} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm">
+                                        <Toolbar activeToolId={activeToolId} onSelectTool={handleSelectTool} disabled={isBusy} />
+                                        {segmentError && <p className="text-sm text-red-400">{segmentError}</p>}
+                                        <ToolOptions
+                                            tool={activeTool}
+                                            brushSize={brushSize}
+                                            onBrushSizeChange={setBrushSize}
+                                            softness={softness}
+                                            onSoftnessChange={setSoftness}
+                                            disabled={isBusy}
+                                        />
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <button onClick={handleUndo} disabled={historyIndex <= 0 || isBusy} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm">
                                                 <UndoIcon className="w-4 h-4" /> Undo
                                             </button>
-                                            <button onClick={handleRedo} disabled={historyIndex >= history.length - 1 || isLoading} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm">
+                                            <button onClick={handleRedo} disabled={historyIndex >= history.length - 1 || isBusy} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm">
                                                 <RedoIcon className="w-4 h-4" /> Redo
                                             </button>
-                                            <button onClick={handleClear} disabled={historyIndex <= 0 || isLoading} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 text-sm disabled:opacity-50">
+                                            <button onClick={handleInvert} disabled={history.length === 0 || isBusy} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm">
+                                                <ContrastIcon className="w-4 h-4" /> Invert
+                                            </button>
+                                            <button onClick={handleClear} disabled={historyIndex <= 0 || isBusy} className="flex items-center justify-center gap-2 p-2 bg-gray-700/80 rounded-md hover:bg-gray-700 text-sm disabled:opacity-50">
                                                 <Trash2Icon className="w-4 h-4" /> Clear
                                             </button>
                                         </div>
                                     </div>
                                 </div>
-                                <div className="bg-gray-800/70 p-4 rounded-lg flex-grow flex flex-col">
-                                    <h3 className="text-base font-semibold mb-3 text-gray-300">2. Describe your change</h3>
-                                    <textarea
-                                        value={prompt}
-                                        onChange={(e) => setPrompt(e.target.value)}
-                                        disabled={isLoading}
-                                        placeholder="e.g., Change the color to blue, add a logo here, make this sleeve shorter..."
-                                        className="w-full p-3 text-sm text-white bg-gray-800/70 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-colors disabled:bg-gray-800 flex-grow"
-                                        rows={4}
-                                    />
+                                <div className="bg-gray-800/70 p-4 rounded-lg flex-grow flex flex-col gap-3">
+                                    <h3 className="text-base font-semibold text-gray-300">2. Describe each change</h3>
+                                    {regions.map(region => {
+                                        const isActive = region.id === activeRegionId;
+                                        return (
+                                            <div
+                                                key={region.id}
+                                                onClick={() => handleSelectRegion(region.id)}
+                                                className={`flex flex-col gap-2 p-3 rounded-lg border transition-colors ${isActive ? 'border-indigo-500 bg-gray-900/60' : 'border-gray-700 cursor-pointer hover:border-gray-500'}`}
+                                            >
+                                                <div className="flex items-center gap-2">
+                                                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: region.color.value }} />
+                                                    <span className="text-sm font-medium flex-grow">{region.color.name} area</span>
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); updateRegion(region.id, { visible: !region.visible }); }}
+                                                        className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"
+                                                        aria-label={region.visible ? `Hide ${region.color.name} area` : `Show ${region.color.name} area`}
+                                                    >
+                                                        {region.visible ? <EyeIcon className="w-4 h-4" /> : <EyeOffIcon className="w-4 h-4" />}
+                                                    </button>
+                                                    {regions.length > 1 && (
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); handleRemoveRegion(region.id); }}
+                                                            disabled={isBusy}
+                                                            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+                                                            aria-label={`Remove ${region.color.name} area`}
+                                                        >
+                                                            <XIcon className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <textarea
+                                                    value={region.prompt}
+                                                    onChange={(e) => updateRegion(region.id, { prompt: e.target.value })}
+                                                    disabled={isBusy}
+                                                    placeholder="e.g., Change the color to blue, add a logo here, make this sleeve shorter..."
+                                                    className="w-full p-3 text-sm text-white bg-gray-800/70 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-colors disabled:bg-gray-800"
+                                                    rows={isActive ? 3 : 2}
+                                                    maxLength={PROMPT_INPUT_LIMITS.maskEditInstruction}
+                                                />
+                                            </div>
+                                        );
+                                    })}
+                                    <button
+                                        onClick={handleAddRegion}
+                                        disabled={regions.length >= REGION_COLORS.length || isBusy}
+                                        className="flex items-center justify-center gap-2 p-2 border border-dashed border-gray-600 rounded-md text-sm text-gray-300 hover:bg-gray-700/60 disabled:opacity-50"
+                                    >
+                                        <PlusIcon className="w-4 h-4" /> Add another area
+                                    </button>
+                                    {readyRegions.length > 1 && (
+                                        <div className="flex flex-col gap-2">
+                                            <div className="grid grid-cols-2 gap-1 bg-gray-900/60 p-1 rounded-lg" role="radiogroup" aria-label="How to apply the changes">
+                                                {APPLY_MODES.map(mode => (
+                                                    <button
+                                                        key={mode.id}
+                                                        onClick={() => setApplyMode(mode.id)}
+                                                        role="radio"
+                                                        aria-checked={mode.id === applyMode}
+                                                        className={`p-2 text-sm rounded-md transition-colors ${mode.id === applyMode ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                                                    >
+                                                        {mode.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-gray-400">{APPLY_MODES.find(mode => mode.id === applyMode)?.description}</p>
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="mt-auto">
                                     <button
                                         onClick={handleApply}
-                                        disabled={isLoading || !prompt.trim()}
+                                        disabled={isBusy || readyRegions.length === 0}
                                         className="w-full text-center bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200 ease-in-out hover:bg-indigo-500 active:scale-[0.98] text-base disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                                     >
-                                        {isLoading ? <><Spinner/> Applying...</> : 'Apply Changes'}
+                                        {isLoading ? <><Spinner/> Applying...</> : readyRegions.length > 1 ? `Apply ${readyRegions.length} Changes` : 'Apply Changes'}
                                     </button>
                                 </div>
                             </div>
@@ -5,6 +5,7 @@
 import React, { useState } from 'react';
 import { ImageIcon, ChevronUpIcon, ChevronDownIcon } from './icons';
 import { motion, AnimatePresence } from 'framer-motion';
+import { PROMPT_INPUT_LIMITS } from '../services/promptSafety';
 
 interface BackgroundPanelProps {
   onBackgroundChange: (prompt: string) => void;
@@ -114,6 +115,7 @@ const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onBackgroundChange, o
                           placeholder="A bustling Paris street in the rain with bokeh lights..."
                           className="w-full p-3 text-sm text-gray-800 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent transition-colors disabled:bg-gray-100"
                           rows={3}
+                          maxLength={PROMPT_INPUT_LIMITS.backgroundPrompt}
                           aria-label="Custom background prompt"
                       />
                       <button
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { CandidateChoice } from '../types';
+import { CheckCircleIcon } from './icons';
+
+interface CandidatePickerProps {
+  choice: CandidateChoice;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ choice, selectedIndex, onSelect, onKeep, onDiscard }) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      transition={{ duration: 0.2, ease: 'easeOut' }}
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md bg-white/80 backdrop-blur-lg rounded-xl p-3 border border-gray-200/80 shadow-xl"
+      role="dialog"
+      aria-label={`Choose a variant for ${choice.title}`}
+    >
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <p className="text-sm font-semibold text-gray-800 truncate" title={choice.title}>{choice.title}</p>
+        <p className="text-xs text-gray-500 flex-shrink-0">Variant {selectedIndex + 1} of {choice.candidates.length}</p>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {choice.candidates.map((url, index) => (
+          <button
+            key={url}
+            onClick={() => onSelect(index)}
+            className={`relative flex-shrink-0 w-16 h-20 rounded-md overflow-hidden border-2 transition-all ${index === selectedIndex ? 'border-gray-900' : 'border-transparent opacity-70 hover:opacity-100'}`}
+            aria-label={`Preview variant ${index + 1}`}
+            aria-pressed={index === selectedIndex}
+          >
+            <img src={url} alt={`Variant ${index + 1}`} className="w-full h-full object-cover" />
+            {index === selectedIndex && (
+              <CheckCircleIcon className="absolute top-1 right-1 w-4 h-4 text-white drop-shadow" />
+            )}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onKeep}
+          className="flex-grow text-center bg-gray-900 text-white font-semibold py-2 px-3 rounded-md transition-colors duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-sm"
+        >
+          Keep this one
+        </button>
+        <button
+          onClick={onDiscard}
+          className="text-center bg-white/60 border border-gray-300/80 text-gray-700 font-semibold py-2 px-3 rounded-md transition-colors hover:bg-white active:scale-95 text-sm"
+        >
+          Discard
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default CandidatePicker;
@@ -3,15 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState } from 'react';
-import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, BookmarkIcon, DownloadIcon, AspectRatioIcon, UndoIcon, MagicWandIcon } from './icons';
+import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, BookmarkIcon, DownloadIcon, AspectRatioIcon, UndoIcon, MagicWandIcon, CropIcon, SettingsIcon, ImageIcon, ActivityIcon } from './icons';
+import type { CandidateChoice, GeneratedImageInfo, ImageAdjustments } from '../types';
+import { PROMPT_INPUT_LIMITS } from '../services/promptSafety';
 import Spinner from './Spinner';
+import CandidatePicker from './CandidatePicker';
+import AdjustedImage from './AdjustedImage';
+import { isNeutralAdjustments, renderAdjustedImage } from '../lib/imageAdjustments';
+import { ASPECT_RATIOS } from '../lib/aspectRatios';
 import { AnimatePresence, motion } from 'framer-motion';
 
 interface CanvasProps {
   displayImageUrl: string | null;
+  displayImageInfo?: GeneratedImageInfo;
+  displayAdjustments?: ImageAdjustments;
   onStartOver: () => void;
   isLoading: boolean;
   loadingMessage: string;
+  onCancel: () => void;
+  pendingMessage: string | null;
   onSelectPose: (index: number) => void;
   onCustomPose: (prompt: string) => void;
   poseInstructions: string[];
@@ -25,19 +35,25 @@ interface CanvasProps {
   canUndo: boolean;
   onEdit: () => void;
   canEdit: boolean;
+  onCrop: () => void;
+  onOpenSettings: () => void;
+  onOpenInspector: () => void;
+  candidateChoice: CandidateChoice | null;
+  onPickCandidate: (index: number) => void;
+  onDiscardCandidates: () => void;
+  alternateCount: number;
+  onShowAlternates: () => void;
 }
 
-const ASPECT_RATIOS: Record<string, string> = {
-  '2:3': 'Portrait',
-  '1:1': 'Square',
-  '16:9': 'Landscape',
-};
-
 const Canvas: React.FC<CanvasProps> = ({ 
   displayImageUrl, 
+  displayImageInfo,
+  displayAdjustments,
   onStartOver, 
   isLoading, 
   loadingMessage, 
+  onCancel,
+  pendingMessage,
   onSelectPose, 
   onCustomPose,
   poseInstructions, 
@@ -51,10 +67,23 @@ const Canvas: React.FC<CanvasProps> = ({
   canUndo,
   onEdit,
   canEdit,
+  onCrop,
+  onOpenSettings,
+  onOpenInspector,
+  candidateChoice,
+  onPickCandidate,
+  onDiscardCandidates,
+  alternateCount,
+  onShowAlternates,
 }) => {
   const [isPoseMenuOpen, setIsPoseMenuOpen] = useState(false);
   const [isAspectRatioMenuOpen, setIsAspectRatioMenuOpen] = useState(false);
   const [customPosePrompt, setCustomPosePrompt] = useState('');
+  const [candidatePreview, setCandidatePreview] = useState<{ choiceId: string; index: number } | null>(null);
+
+  // While variants are on offer the canvas previews the selected one instead of the committed image.
+  const selectedCandidateIndex = candidateChoice && candidatePreview?.choiceId === candidateChoice.id ? candidatePreview.index : 0;
+  const shownImageUrl = candidateChoice ? candidateChoice.candidates[selectedCandidateIndex] : displayImageUrl;
   
   const handlePreviousPose = () => {
     if (isLoading || availablePoseKeys.length <= 1) return;
@@ -106,10 +135,18 @@ const Canvas: React.FC<CanvasProps> = ({
     }
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (!displayImageUrl) return;
+    let imageUrl = displayImageUrl;
+    if (displayAdjustments && !isNeutralAdjustments(displayAdjustments)) {
+      try {
+        imageUrl = await renderAdjustedImage(displayImageUrl, displayAdjustments);
+      } catch (e) {
+        console.error("Failed to apply adjustments to the download", e);
+      }
+    }
     const link = document.createElement('a');
-    link.href = displayImageUrl;
+    link.href = imageUrl;
     link.download = 'my-fit-check-outfit.png';
     document.body.appendChild(link);
     link.click();
@@ -167,6 +204,18 @@ const Canvas: React.FC<CanvasProps> = ({
             </button>
         )}
 
+        {canEdit && (
+            <button
+                onClick={onCrop}
+                disabled={isLoading}
+                className="flex items-center justify-center text-center bg-white/60 border border-gray-300/80 text-gray-700 font-semibold py-2 px-4 rounded-full transition-all duration-200 ease-in-out hover:bg-white hover:border-gray-400 active:scale-95 text-sm backdrop-blur-sm disabled:opacity-50"
+                aria-label="Crop image"
+            >
+                <CropIcon className="w-4 h-4 mr-2" />
+                Crop
+            </button>
+        )}
+
         {displayImageUrl && !isLoading && (
             <div className="relative">
                 <button
@@ -230,14 +279,49 @@ const Canvas: React.FC<CanvasProps> = ({
                 Download
             </button>
         )}
+
+        {alternateCount > 0 && !candidateChoice && !isLoading && (
+            <button
+                onClick={onShowAlternates}
+                className="flex items-center justify-center text-center bg-white/60 border border-gray-300/80 text-gray-700 font-semibold py-2 px-4 rounded-full transition-all duration-200 ease-in-out hover:bg-white hover:border-gray-400 active:scale-95 text-sm backdrop-blur-sm"
+                aria-label="Show alternate variants"
+            >
+                <ImageIcon className="w-4 h-4 mr-2" />
+                Alternates ({alternateCount})
+            </button>
+        )}
+
+        <button
+            onClick={onOpenInspector}
+            className="flex items-center justify-center bg-white/60 border border-gray-300/80 text-gray-700 p-2 rounded-full transition-all duration-200 ease-in-out hover:bg-white hover:border-gray-400 active:scale-95 backdrop-blur-sm"
+            aria-label="Request inspector"
+            title="Request inspector"
+        >
+            <ActivityIcon className="w-4 h-4" />
+        </button>
+        <button
+            onClick={onOpenSettings}
+            className="flex items-center justify-center bg-white/60 border border-gray-300/80 text-gray-700 p-2 rounded-full transition-all duration-200 ease-in-out hover:bg-white hover:border-gray-400 active:scale-95 backdrop-blur-sm"
+            aria-label="Settings"
+            title="Settings"
+        >
+            <SettingsIcon className="w-4 h-4" />
+        </button>
       </div>
 
       {/* Image Display or Placeholder */}
       <div className="relative w-full h-full flex items-center justify-center">
-        {displayImageUrl ? (
+        {shownImageUrl && !candidateChoice && displayAdjustments && !isNeutralAdjustments(displayAdjustments) ? (
+          <AdjustedImage
+            imageUrl={shownImageUrl}
+            adjustments={displayAdjustments}
+            alt="Virtual try-on model"
+            className="max-w-full max-h-full object-contain rounded-lg"
+          />
+        ) : shownImageUrl ? (
           <img
-            key={displayImageUrl} // Use key to force re-render and trigger animation on image change
-            src={displayImageUrl}
+            key={shownImageUrl} // Use key to force re-render and trigger animation on image change
+            src={shownImageUrl}
             alt="Virtual try-on model"
             className="max-w-full max-h-full object-contain transition-opacity duration-500 animate-fade-in rounded-lg"
           />
@@ -248,6 +332,35 @@ const Canvas: React.FC<CanvasProps> = ({
             </div>
         )}
         
+        {displayImageUrl && displayImageInfo && !isLoading && !candidateChoice && (
+            <div className="absolute bottom-4 left-4 z-20 flex flex-col items-start gap-2 max-w-xs">
+                {displayImageInfo.check?.flagged && (
+                    <div className="bg-amber-50/95 backdrop-blur-md border border-amber-300 rounded-lg py-2 px-3 text-xs text-amber-900 shadow-sm" role="status">
+                        <p className="font-semibold">This result may not match your request</p>
+                        {displayImageInfo.check.issues.map(issue => <p key={issue}>{issue}</p>)}
+                        {canUndo && (
+                            <button onClick={onUndo} className="mt-1 font-semibold underline hover:text-amber-700">
+                                Undo and try again
+                            </button>
+                        )}
+                    </div>
+                )}
+                {displayImageInfo.promptTemplate && (
+                    <div className="bg-white/80 backdrop-blur-md border border-gray-200/80 rounded-full py-1 px-2.5 text-xs font-medium text-gray-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                        Prompt: {displayImageInfo.promptTemplate.name} v{displayImageInfo.promptTemplate.version}
+                        {displayImageInfo.check && displayImageInfo.check.adjustment !== 'none' && ` · ${displayImageInfo.check.adjustment} to ${displayImageInfo.check.expectedAspectRatio}`}
+                    </div>
+                )}
+            </div>
+        )}
+
+        {pendingMessage && !isLoading && (
+            <div className="absolute top-4 right-4 z-20 flex items-center gap-2 bg-white/80 backdrop-blur-md border border-gray-200/80 rounded-full py-1.5 px-3 text-sm font-medium text-gray-700 shadow-sm">
+                <span className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />
+                {pendingMessage}
+            </div>
+        )}
+
         <AnimatePresence>
           {isLoading && (
               <motion.div
@@ -260,13 +373,32 @@ const Canvas: React.FC<CanvasProps> = ({
                   {loadingMessage && (
                       <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <button
+                      onClick={onCancel}
+                      className="mt-6 px-6 py-2 text-sm font-semibold text-gray-700 bg-white/60 border border-gray-300/80 rounded-full hover:bg-white hover:border-gray-400 active:scale-95 transition-all"
+                  >
+                      Cancel
+                  </button>
               </motion.div>
           )}
         </AnimatePresence>
       </div>
 
+      <AnimatePresence>
+        {candidateChoice && !isLoading && (
+          <CandidatePicker
+            key={candidateChoice.id}
+            choice={candidateChoice}
+            selectedIndex={selectedCandidateIndex}
+            onSelect={index => setCandidatePreview({ choiceId: candidateChoice.id, index })}
+            onKeep={() => onPickCandidate(selectedCandidateIndex)}
+            onDiscard={onDiscardCandidates}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Pose Controls */}
-      {displayImageUrl && !isLoading && (
+      {displayImageUrl && !isLoading && !candidateChoice && (
         <div 
           className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
           onMouseEnter={() => setIsPoseMenuOpen(true)}
@@ -303,6 +435,7 @@ const Canvas: React.FC<CanvasProps> = ({
                                   placeholder="Or type your own pose..."
                                   className="w-full p-2 text-sm text-gray-800 bg-white border border-gray-300 rounded-md focus:ring-1 focus:ring-gray-800 focus:border-transparent transition-colors"
                                   rows={2}
+                                  maxLength={PROMPT_INPUT_LIMITS.poseInstruction}
                                   aria-label="Custom pose prompt"
                               />
                               <button
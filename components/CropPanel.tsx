@@ -2,7 +2,163 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ReactCrop, { centerCrop, makeAspectCrop, PercentCrop } from 'react-image-crop';
+import { XIcon } from './icons';
+import { ASPECT_RATIOS, parseAspectRatio } from '../lib/aspectRatios';
+
+interface CropPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Receives the cropped image and the preset it was locked to, or null for a freeform crop. */
+    onApply: (croppedImageUrl: string, aspectRatio: string | null) => void;
+    imageUrl: string;
+    currentAspectRatio: string;
+}
+
+const FREEFORM = 'free';
+
+// The largest centred crop of the given ratio, or the whole image for freeform.
+const createInitialCrop = (image: HTMLImageElement, aspect: number | undefined): PercentCrop => {
+    const { naturalWidth: width, naturalHeight: height } = image;
+    if (!aspect) {
+        return { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+    }
+    return centerCrop(makeAspectCrop({ unit: '%', width: 100 }, aspect, width, height), width, height);
+};
+
+// Cuts the crop out of the image at full resolution. PNG keeps the pixels as they were.
+const cropImage = (image: HTMLImageElement, crop: PercentCrop): string => {
+    const { naturalWidth, naturalHeight } = image;
+    const x = Math.round((crop.x / 100) * naturalWidth);
+    const y = Math.round((crop.y / 100) * naturalHeight);
+    const width = Math.max(1, Math.min(naturalWidth - x, Math.round((crop.width / 100) * naturalWidth)));
+    const height = Math.max(1, Math.min(naturalHeight - y, Math.round((crop.height / 100) * naturalHeight)));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get a canvas context to crop the image.');
+    ctx.drawImage(image, x, y, width, height, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ isOpen, onClose, onApply, imageUrl, currentAspectRatio }) => {
+    const imageRef = useRef<HTMLImageElement>(null);
+    const [preset, setPreset] = useState<string>(currentAspectRatio in ASPECT_RATIOS ? currentAspectRatio : FREEFORM);
+    const [crop, setCrop] = useState<PercentCrop>();
+    const [error, setError] = useState<string | null>(null);
+
+    const aspect = preset === FREEFORM ? undefined : parseAspectRatio(preset);
+
+    const handleImageLoad = () => {
+        if (imageRef.current) {
+            setCrop(createInitialCrop(imageRef.current, aspect));
+        }
+    };
+
+    const handleSelectPreset = (nextPreset: string) => {
+        setPreset(nextPreset);
+        if (imageRef.current) {
+            setCrop(createInitialCrop(imageRef.current, nextPreset === FREEFORM ? undefined : parseAspectRatio(nextPreset)));
+        }
+    };
+
+    const handleApply = () => {
+        const image = imageRef.current;
+        if (!image || !crop || crop.width === 0 || crop.height === 0) return;
+        try {
+            onApply(cropImage(image, crop), preset === FREEFORM ? null : preset);
+        } catch (e) {
+            console.error("Failed to crop image", e);
+            setError('The image could not be cropped.');
+        }
+    };
+
+    const presets = [{ id: FREEFORM, label: 'Freeform' }, ...Object.entries(ASPECT_RATIOS).map(([ratio, name]) => ({ id: ratio, label: `${name} ${ratio}` }))];
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    transition={{ duration: 0.3 }}
+                    className="fixed inset-0 bg-black/60 backdrop-blur-md z-50 flex items-center justify-center p-4"
+                >
+                    <motion.div
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        transition={{ duration: 0.3, ease: 'easeOut' }}
+                        className="relative bg-gray-900/50 border border-gray-700 text-white rounded-2xl w-full h-full flex flex-col shadow-xl overflow-hidden"
+                    >
+                        <div className="flex items-center justify-between p-4 border-b border-gray-700/60 flex-shrink-0">
+                            <h2 className="text-xl font-serif tracking-wider">Crop Image</h2>
+                            <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors" aria-label="Close crop">
+                                <XIcon className="w-6 h-6"/>
+                            </button>
+                        </div>
+
+                        <div className="flex-grow flex flex-col md:flex-row gap-4 p-4 overflow-hidden">
+                            <div className="flex-grow flex items-center justify-center min-h-[300px] md:min-h-0 overflow-hidden bg-black/20 rounded-lg">
+                                <ReactCrop
+                                    crop={crop}
+                                    onChange={(_, percentCrop) => setCrop(percentCrop)}
+                                    aspect={aspect}
+                                    keepSelection
+                                    ruleOfThirds
+                                    className="max-h-full"
+                                >
+                                    <img
+                                        ref={imageRef}
+                                        src={imageUrl}
+                                        alt="Image to crop"
+                                        onLoad={handleImageLoad}
+                                        className="block max-w-full max-h-[calc(100vh-12rem)] object-contain"
+                                    />
+                                </ReactCrop>
+                            </div>
+
+                            <div className="w-full md:w-72 flex flex-col gap-4 flex-shrink-0">
+                                <div className="bg-gray-800/70 p-4 rounded-lg">
+                                    <h3 className="text-base font-semibold mb-3 text-gray-300">Shape</h3>
+                                    <div className="flex flex-col gap-2" role="radiogroup" aria-label="Crop shape">
+                                        {presets.map(option => (
+                                            <button
+                                                key={option.id}
+                                                onClick={() => handleSelectPreset(option.id)}
+                                                role="radio"
+                                                aria-checked={option.id === preset}
+                                                className={`p-2 text-sm text-left rounded-md transition-colors ${option.id === preset ? 'bg-indigo-600 text-white' : 'bg-gray-700/80 text-gray-200 hover:bg-gray-700'}`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-400 mt-3">
+                                        Cropping happens on your device, without a model call. A locked shape also becomes the aspect ratio for later generations; undo restores both.
+                                    </p>
+                                </div>
+                                {error && <p className="text-sm text-red-400">{error}</p>}
+                                <div className="mt-auto">
+                                    <button
+                                        onClick={handleApply}
+                                        disabled={!crop || crop.width === 0 || crop.height === 0}
+                                        className="w-full text-center bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200 ease-in-out hover:bg-indigo-500 active:scale-[0.98] text-base disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Apply Crop
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
 
-// This component is not used in the current application flow.
-const CropPanel = () => null;
 export default CropPanel;
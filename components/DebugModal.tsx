@@ -2,3 +2,247 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XIcon, Trash2Icon } from './icons';
+import { clearTraces, getTraces, RequestTrace, subscribeToTraces, TracePart } from '../services/requestInspector';
+import {
+  FixtureRecordingState,
+  getFixtureRecordingState,
+  parseFixtureFile,
+  startFixtureRecording,
+  stopFixtureRecording,
+  subscribeToFixtureRecording,
+} from '../services/fixtureRecorder';
+import { startFixtureReplay, stopFixtureReplay } from '../services/providers/replayProvider';
+import { getImageProviderId } from '../services/imageProvider';
+
+interface DebugModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RequestTrace['status'], string> = {
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  cached: 'bg-blue-100 text-blue-800',
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="flex flex-col gap-2">
+    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{title}</h4>
+    {children}
+  </section>
+);
+
+const PartList: React.FC<{ parts: TracePart[]; emptyLabel: string }> = ({ parts, emptyLabel }) => {
+  if (parts.length === 0) {
+    return <p className="text-sm text-gray-400">{emptyLabel}</p>;
+  }
+  return (
+    <div className="flex flex-col gap-2">
+      {parts.map((part, index) => part.kind === 'image' ? (
+        <a key={index} href={part.value} target="_blank" rel="noreferrer" className="self-start">
+          <img src={part.value} alt={`Part ${index + 1}`} className="max-h-40 rounded-md border border-gray-200 bg-gray-50" />
+        </a>
+      ) : (
+        <pre key={index} className="text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3 whitespace-pre-wrap break-words">{part.value}</pre>
+      ))}
+    </div>
+  );
+};
+
+const TraceDetail: React.FC<{ trace: RequestTrace }> = ({ trace }) => (
+  <div className="flex flex-col gap-5">
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      <dt className="text-gray-500">Operation</dt>
+      <dd className="text-gray-800 font-medium">{trace.operation}</dd>
+      <dt className="text-gray-500">Provider</dt>
+      <dd className="text-gray-800">{trace.providerId}{trace.model ? ` · ${trace.model}` : ''}</dd>
+      {trace.seed !== undefined && (<><dt className="text-gray-500">Seed</dt><dd className="text-gray-800">{trace.seed}</dd></>)}
+      <dt className="text-gray-500">Started</dt>
+      <dd className="text-gray-800">{new Date(trace.timestamp).toLocaleTimeString()}</dd>
+      <dt className="text-gray-500">Latency</dt>
+      <dd className="text-gray-800">{trace.status === 'cached' ? 'served from cache' : `${(trace.latencyMs / 1000).toFixed(2)}s`}</dd>
+      <dt className="text-gray-500">Finish reason</dt>
+      <dd className="text-gray-800">{trace.finishReasons.length > 0 ? trace.finishReasons.join(', ') : '—'}</dd>
+    </dl>
+
+    {trace.error && (
+      <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-3 rounded-md text-sm break-words">{trace.error}</div>
+    )}
+
+    {trace.promptFeedback !== undefined && (
+      <Section title="Prompt feedback">
+        <pre className="text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3 whitespace-pre-wrap break-words">{JSON.stringify(trace.promptFeedback, null, 2)}</pre>
+      </Section>
+    )}
+
+    <Section title="Request">
+      <PartList parts={trace.inputs} emptyLabel="No request was sent." />
+    </Section>
+
+    <Section title="Response">
+      <PartList parts={trace.outputs} emptyLabel="The response contained no parts." />
+    </Section>
+  </div>
+);
+
+const downloadJson = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Records the session's model exchanges to a fixture file, or replays one instead of calling the model.
+const FixtureControls: React.FC = () => {
+  const recording: FixtureRecordingState = useSyncExternalStore(subscribeToFixtureRecording, getFixtureRecordingState);
+  const [isReplaying, setIsReplaying] = useState(() => getImageProviderId() === 'replay');
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleStopRecording = () => {
+    const fixtures = stopFixtureRecording();
+    downloadJson(JSON.stringify(fixtures, null, 2), `fixtures-${fixtures.recordedAt.replace(/[:.]/g, '-')}.json`);
+    setStatus({ type: 'success', text: `Saved ${fixtures.exchanges.length} exchange${fixtures.exchanges.length === 1 ? '' : 's'}.` });
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const fixtures = parseFixtureFile(await file.text());
+      startFixtureReplay(fixtures);
+      setIsReplaying(true);
+      setStatus({ type: 'success', text: `Replaying ${fixtures.exchanges.length} recorded exchange${fixtures.exchanges.length === 1 ? '' : 's'}.` });
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleStopReplay = () => {
+    stopFixtureReplay();
+    setIsReplaying(false);
+    setStatus(null);
+  };
+
+  const buttonClass = 'text-xs font-semibold py-1.5 px-3 rounded-md border transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50 flex-shrink-0">
+      <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider mr-1">Fixtures</span>
+      {recording.recording ? (
+        <button onClick={handleStopRecording} className={`${buttonClass} border-red-300 text-red-700 bg-white hover:bg-red-50`}>
+          <span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-2 animate-pulse" />
+          Stop and save ({recording.exchanges})
+        </button>
+      ) : (
+        <button onClick={startFixtureRecording} disabled={isReplaying} className={`${buttonClass} border-gray-300 text-gray-700 bg-white hover:bg-gray-100`}>
+          Record
+        </button>
+      )}
+      {isReplaying ? (
+        <button onClick={handleStopReplay} className={`${buttonClass} border-blue-300 text-blue-700 bg-white hover:bg-blue-50`}>
+          Stop replay
+        </button>
+      ) : (
+        <button onClick={() => fileInputRef.current?.click()} disabled={recording.recording} className={`${buttonClass} border-gray-300 text-gray-700 bg-white hover:bg-gray-100`}>
+          Replay file...
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+      {status && (
+        <span className={`text-xs ${status.type === 'error' ? 'text-red-600' : 'text-gray-600'}`}>{status.text}</span>
+      )}
+    </div>
+  );
+};
+
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose }) => {
+  const traces: RequestTrace[] = useSyncExternalStore(subscribeToTraces, getTraces);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = traces.find(trace => trace.id === selectedId) ?? traces[0];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            className="relative bg-white rounded-2xl w-full max-w-5xl h-[90vh] flex flex-col shadow-xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="debug-title"
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 flex-shrink-0">
+              <h2 id="debug-title" className="text-xl font-serif tracking-wider text-gray-800">Request Inspector</h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={clearTraces}
+                  disabled={traces.length === 0}
+                  className="flex items-center gap-1.5 text-sm font-semibold text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  <Trash2Icon className="w-4 h-4" /> Clear
+                </button>
+                <button onClick={onClose} className="p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800 transition-colors" aria-label="Close inspector">
+                  <XIcon className="w-6 h-6" />
+                </button>
+              </div>
+            </div>
+            <FixtureControls />
+            {traces.length === 0 ? (
+              <div className="flex-grow flex items-center justify-center p-6">
+                <p className="text-gray-500 text-center">No requests yet. Calls to the image service will appear here as they happen.</p>
+              </div>
+            ) : (
+              <div className="flex flex-col md:flex-row flex-grow overflow-hidden">
+                <ul className="md:w-64 flex-shrink-0 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200">
+                  {traces.map(trace => (
+                    <li key={trace.id}>
+                      <button
+                        onClick={() => setSelectedId(trace.id)}
+                        className={`w-full text-left px-3 py-2 border-b border-gray-100 transition-colors ${trace.id === selected?.id ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-800 truncate">{trace.operation}</span>
+                          <span className={`text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${STATUS_STYLES[trace.status]}`}>{trace.status}</span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {new Date(trace.timestamp).toLocaleTimeString()}
+                          {trace.status !== 'cached' && ` · ${(trace.latencyMs / 1000).toFixed(1)}s`}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex-grow p-4 md:p-6 overflow-y-auto">
+                  {selected && <TraceDetail trace={selected} />}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default DebugModal;
@@ -19,7 +19,7 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRemoveLastGa
       <div className="space-y-2">
         {outfitHistory.map((layer, index) => (
           <div
-            key={layer.garment?.id || 'base'}
+            key={layer.id}
             className="flex items-center justify-between bg-white/50 p-2 rounded-lg animate-fade-in border border-gray-200/80"
           >
             <div className="flex items-center overflow-hidden">
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Job } from '../lib/jobQueue';
+import { isJobActive } from '../lib/jobQueue';
+import { CheckCircleIcon, XIcon, ChevronUpIcon, ChevronDownIcon } from './icons';
+
+interface QueueTrayProps {
+  jobs: Job<unknown>[];
+  onCancelJob: (id: string) => void;
+  onDismissJob: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<Job<unknown>['status'], string> = {
+  pending: 'bg-gray-300',
+  running: 'bg-indigo-500 animate-pulse',
+  done: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400',
+};
+
+const QueueTray: React.FC<QueueTrayProps> = ({ jobs, onCancelJob, onDismissJob, onClearFinished }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isJobActive).length;
+  const hasFinished = activeCount < jobs.length;
+
+  return (
+    <div className="absolute top-28 md:top-16 left-4 z-30 w-72 max-w-[calc(100%-2rem)] bg-white/80 backdrop-blur-lg rounded-xl border border-gray-200/80 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={() => setIsCollapsed(c => !c)}
+          className="flex items-center gap-2 text-sm font-semibold text-gray-800"
+          aria-label={isCollapsed ? 'Expand queue' : 'Collapse queue'}
+        >
+          {isCollapsed ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronUpIcon className="w-4 h-4" />}
+          {activeCount > 0 ? `Generating (${activeCount})` : 'Queue'}
+        </button>
+        {hasFinished && (
+          <button
+            onClick={onClearFinished}
+            className="text-xs font-semibold text-gray-500 hover:text-gray-800 transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+      <AnimatePresence initial={false}>
+        {!isCollapsed && (
+          <motion.ul
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.2, ease: 'easeInOut' }}
+            className="max-h-60 overflow-y-auto border-t border-gray-200/80"
+          >
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-start gap-2 px-3 py-2 border-b border-gray-100 last:border-b-0">
+                {job.status === 'done'
+                  ? <CheckCircleIcon className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-green-600" />
+                  : <span className={`w-2.5 h-2.5 mt-1 mx-0.5 flex-shrink-0 rounded-full ${STATUS_STYLES[job.status]}`} />}
+                <div className="flex-grow overflow-hidden">
+                  <p className="text-sm font-medium text-gray-800 truncate" title={job.label}>{job.label}</p>
+                  <p className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>{job.message}</p>
+                </div>
+                <button
+                  onClick={() => isJobActive(job) ? onCancelJob(job.id) : onDismissJob(job.id)}
+                  className="p-1 rounded-full text-gray-400 hover:text-gray-800 hover:bg-gray-200/70 transition-colors"
+                  aria-label={isJobActive(job) ? `Cancel ${job.label}` : `Dismiss ${job.label}`}
+                  title={isJobActive(job) ? 'Cancel' : 'Dismiss'}
+                >
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default QueueTray;
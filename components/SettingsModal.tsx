@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XIcon } from './icons';
+import ApiKeySettings from './settings/ApiKeySettings';
+import PromptSettings from './settings/PromptSettings';
+import GenerationSettings from './settings/GenerationSettings';
+import ModelSettings from './settings/ModelSettings';
+import UsageSettings from './settings/UsageSettings';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SETTINGS_SECTIONS = [
+  { id: 'generation', label: 'Generation', Component: GenerationSettings },
+  { id: 'models', label: 'Models', Component: ModelSettings },
+  { id: 'prompts', label: 'Prompts', Component: PromptSettings },
+  { id: 'usage', label: 'Usage', Component: UsageSettings },
+  { id: 'api-key', label: 'API key', Component: ApiKeySettings },
+];
+
+type SettingsSectionId = typeof SETTINGS_SECTIONS[number]['id'];
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const [activeSectionId, setActiveSectionId] = useState<SettingsSectionId>(SETTINGS_SECTIONS[0].id);
+  const activeSection = SETTINGS_SECTIONS.find(section => section.id === activeSectionId) ?? SETTINGS_SECTIONS[0];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            className="relative bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="settings-title"
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 flex-shrink-0">
+              <h2 id="settings-title" className="text-xl font-serif tracking-wider text-gray-800">Settings</h2>
+              <button onClick={onClose} className="p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800 transition-colors" aria-label="Close settings">
+                <XIcon className="w-6 h-6" />
+              </button>
+            </div>
+            <div className="flex flex-col md:flex-row flex-grow overflow-hidden">
+              <nav className="flex md:flex-col gap-1 p-3 md:w-44 flex-shrink-0 border-b md:border-b-0 md:border-r border-gray-200 overflow-x-auto">
+                {SETTINGS_SECTIONS.map(section => (
+                  <button
+                    key={section.id}
+                    onClick={() => setActiveSectionId(section.id)}
+                    className={`text-left text-sm font-medium px-3 py-2 rounded-md transition-colors ${section.id === activeSection.id ? 'bg-gray-100 text-gray-900 font-semibold' : 'text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {section.label}
+                  </button>
+                ))}
+              </nav>
+              <div className="flex-grow p-4 md:p-6 overflow-y-auto">
+                <activeSection.Component />
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SettingsModal;
@@ -8,11 +8,15 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { UploadCloudIcon, CameraIcon } from './icons';
 import { Compare } from './ui/compare';
 import { generateModelImage } from '../services/geminiService';
+import { NetworkError, NoImageReturnedError, PromptRejectedError, RateLimitedError, SafetyBlockedError, TimeoutError, UnsupportedMimeError } from '../services/errors';
+import { PROMPT_INPUT_LIMITS } from '../services/promptSafety';
+import { confirmWithinBudget } from '../lib/utils';
 import Spinner from './Spinner';
 import CameraView from './CameraView';
+import type { GeneratedImageInfo } from '../types';
 
 interface StartScreenProps {
-  onModelFinalized: (modelUrl: string) => void;
+  onModelFinalized: (modelUrl: string, info?: GeneratedImageInfo) => void;
 }
 
 interface ErrorState {
@@ -39,6 +43,7 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
 const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
   const [userImageUrl, setUserImageUrl] = useState<string | null>(null);
   const [generatedModelUrl, setGeneratedModelUrl] = useState<string | null>(null);
+  const [generatedModelInfo, setGeneratedModelInfo] = useState<GeneratedImageInfo | undefined>(undefined);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<ErrorState | null>(null);
   const [customInstructions, setCustomInstructions] = useState('');
@@ -53,6 +58,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
         return;
     }
 
+    if (!confirmWithinBudget('modelFromPhoto')) return;
+
     const reader = new FileReader();
     reader.onload = async (e) => {
         const dataUrl = e.target?.result as string;
@@ -61,26 +68,35 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
         setGeneratedModelUrl(null);
         setError(null);
         try {
-            const result = await generateModelImage(file, instructions);
-            setGeneratedModelUrl(result);
+            const { imageUrl, promptTemplate } = await generateModelImage(file, instructions);
+            setGeneratedModelUrl(imageUrl);
+            setGeneratedModelInfo({ promptTemplate });
         } catch (err) {
-            const rawMessage = err instanceof Error ? err.message : String(err);
-
-            if (rawMessage.toLowerCase().includes('blocked') || rawMessage.toLowerCase().includes('safety')) {
+            if (err instanceof PromptRejectedError) {
+                setError({
+                    title: 'Instructions Not Accepted',
+                    message: err.message
+                });
+            } else if (err instanceof SafetyBlockedError) {
                 setError({
                     title: 'Image Content Error',
                     message: 'This image could not be processed due to content policies. Please try a different photo.'
                 });
-            } else if (rawMessage.toLowerCase().includes('unsupported mime type')) {
+            } else if (err instanceof UnsupportedMimeError) {
                 setError({
                     title: 'Unsupported File Type',
                     message: 'Please use a standard image format like PNG, JPEG, or WEBP.'
                 });
-            } else if (rawMessage.toLowerCase().includes('did not return an image')) {
+            } else if (err instanceof NoImageReturnedError) {
                 setError({
                     title: 'Model Creation Failed',
                     message: "We couldn't generate a model from this photo. Try using a clearer, high-quality image of a person."
                 });
+            } else if (err instanceof RateLimitedError || err instanceof NetworkError || err instanceof TimeoutError) {
+                setError({
+                    title: 'Service Unavailable',
+                    message: 'The image service could not be reached after several attempts. Please check your connection and try again in a moment.'
+                });
             } else {
                 setError({
                     title: 'An Error Occurred',
@@ -179,7 +195,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                     Use Different Photo
                   </button>
                   <button 
-                    onClick={() => onModelFinalized(generatedModelUrl)}
+                    onClick={() => onModelFinalized(generatedModelUrl, generatedModelInfo)}
                     className="w-full sm:w-auto relative inline-flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-gray-900 rounded-md cursor-pointer group hover:bg-gray-700 transition-colors"
                   >
                     Proceed to Styling &rarr;
@@ -256,6 +272,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                 placeholder="Optional: Describe your desired model or background (e.g., 'professional headshot on a blurred office background', 'smiling, casual pose')."
                 className="w-full mt-2 p-3 text-sm text-gray-700 bg-gray-50 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-800 focus:border-transparent transition-colors"
                 rows={3}
+                maxLength={PROMPT_INPUT_LIMITS.customInstructions}
                 aria-label="Custom instructions for model generation"
               />
 
@@ -2,3 +2,50 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import type { MaskTool } from '../lib/maskTools';
+
+interface ToolOptionsProps {
+    tool: MaskTool;
+    brushSize: number;
+    onBrushSizeChange: (size: number) => void;
+    softness: number;
+    onSoftnessChange: (softness: number) => void;
+    disabled?: boolean;
+}
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, brushSize, onBrushSizeChange, softness, onSoftnessChange, disabled }) => (
+    <div className="flex flex-col gap-3">
+        <p className="text-xs text-gray-400">{tool.hint}</p>
+        {tool.usesBrushSize && (
+            <label className="flex items-center gap-3">
+                <span className="text-sm w-20 flex-shrink-0">Size</span>
+                <input
+                    type="range"
+                    min="5"
+                    max="100"
+                    value={brushSize}
+                    onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    disabled={disabled}
+                />
+            </label>
+        )}
+        {tool.usesSoftness && (
+            <label className="flex items-center gap-3">
+                <span className="text-sm w-20 flex-shrink-0">Soft edge</span>
+                <input
+                    type="range"
+                    min="0"
+                    max="30"
+                    value={softness}
+                    onChange={(e) => onSoftnessChange(Number(e.target.value))}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    disabled={disabled}
+                />
+            </label>
+        )}
+    </div>
+);
+
+export default ToolOptions;
@@ -2,3 +2,46 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { BrushIcon, EraserIcon, LassoIcon, MagicWandIcon, PentagonIcon, SquareDashedIcon } from './icons';
+import { MASK_TOOLS, MaskToolId } from '../lib/maskTools';
+
+const TOOL_ICONS: Record<MaskToolId, (props: React.SVGProps<SVGSVGElement>) => React.ReactElement> = {
+    select: MagicWandIcon,
+    brush: BrushIcon,
+    eraser: EraserIcon,
+    lasso: LassoIcon,
+    polygon: PentagonIcon,
+    rectangle: SquareDashedIcon,
+};
+
+interface ToolbarProps {
+    activeToolId: MaskToolId;
+    onSelectTool: (id: MaskToolId) => void;
+    disabled?: boolean;
+}
+
+const Toolbar: React.FC<ToolbarProps> = ({ activeToolId, onSelectTool, disabled }) => (
+    <div className="grid grid-cols-6 gap-1 bg-gray-900/60 p-1 rounded-lg" role="radiogroup" aria-label="Selection tool">
+        {MASK_TOOLS.map(tool => {
+            const Icon = TOOL_ICONS[tool.id];
+            const isActive = tool.id === activeToolId;
+            return (
+                <button
+                    key={tool.id}
+                    onClick={() => onSelectTool(tool.id)}
+                    disabled={disabled}
+                    role="radio"
+                    aria-checked={isActive}
+                    aria-label={tool.label}
+                    title={tool.label}
+                    className={`flex items-center justify-center p-2 rounded-md transition-colors disabled:opacity-50 ${isActive ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                    <Icon className="w-5 h-5" />
+                </button>
+            );
+        })}
+    </div>
+);
+
+export default Toolbar;
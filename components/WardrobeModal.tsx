@@ -9,6 +9,7 @@ import { UploadCloudIcon, CheckCircleIcon } from './icons';
 interface WardrobePanelProps {
   onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
   activeGarmentIds: string[];
+  queuedGarmentIds: string[];
   isLoading: boolean;
   wardrobe: WardrobeItem[];
   onClearWardrobe: () => void;
@@ -51,12 +52,12 @@ const urlToFile = (url: string, filename: string): Promise<File> => {
     });
 };
 
-const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, isLoading, wardrobe, onClearWardrobe }) => {
+const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, queuedGarmentIds, isLoading, wardrobe, onClearWardrobe }) => {
     const [error, setError] = useState<string | null>(null);
     const [activeCategory, setActiveCategory] = useState<Category>('garment');
 
     const handleGarmentClick = async (item: WardrobeItem) => {
-        if (isLoading || activeGarmentIds.includes(item.id)) return;
+        if (isLoading || activeGarmentIds.includes(item.id) || queuedGarmentIds.includes(item.id)) return;
         setError(null);
         try {
             // If the item was from an upload, its URL is a blob URL. We need to fetch it to create a file.
@@ -130,11 +131,12 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
         <div className="grid grid-cols-3 gap-3">
             {filteredWardrobe.map((item) => {
             const isActive = activeGarmentIds.includes(item.id);
+            const isQueued = queuedGarmentIds.includes(item.id);
             return (
                 <button
                 key={item.id}
                 onClick={() => handleGarmentClick(item)}
-                disabled={isLoading || isActive}
+                disabled={isLoading || isActive || isQueued}
                 className="relative aspect-square border rounded-lg overflow-hidden transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 group disabled:opacity-60 disabled:cursor-not-allowed"
                 aria-label={`Select ${item.name}`}
                 >
@@ -147,6 +149,11 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
                         <CheckCircleIcon className="w-8 h-8 text-white" />
                     </div>
                 )}
+                {isQueued && !isActive && (
+                    <div className="absolute inset-0 bg-gray-900/50 flex items-center justify-center">
+                        <p className="text-white text-xs font-bold animate-pulse">Queued</p>
+                    </div>
+                )}
                 </button>
             );
             })}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useSyncExternalStore } from 'react';
+import {
+  ApiKeyStatus,
+  clearApiKey,
+  getApiKeyStatus,
+  isApiKeyEncrypted,
+  saveApiKey,
+  subscribeToApiKey,
+  unlockApiKey,
+} from '../../services/apiKeyStore';
+
+const STATUS_TEXT: Record<ApiKeyStatus, string> = {
+  missing: 'No key is set. Gemini requests will fail until you add one.',
+  locked: 'A key is saved but encrypted. Unlock it with your passphrase to use it in this session.',
+  ready: 'A key is set and will be used for Gemini requests.',
+};
+
+const inputClass = 'w-full p-2 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const ApiKeySettings: React.FC = () => {
+  const status: ApiKeyStatus = useSyncExternalStore(subscribeToApiKey, getApiKeyStatus);
+  const [key, setKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const run = async (action: () => Promise<void>, successText: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await saveApiKey(key, passphrase || undefined);
+      setKey('');
+      setPassphrase('');
+    }, passphrase ? 'The key works and was saved encrypted.' : 'The key works and was saved.');
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await unlockApiKey(unlockPassphrase);
+      setUnlockPassphrase('');
+    }, 'Unlocked for this session.');
+  };
+
+  const handleRemove = () => {
+    clearApiKey();
+    setMessage({ type: 'success', text: 'The key was removed from this device.' });
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      <p className="text-sm text-gray-600">
+        Requests to Gemini use your own API key. It is stored only in this browser and sent only to Google. Without a passphrase anyone with access to this browser profile can read it.
+      </p>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className={`inline-block w-2 h-2 rounded-full ${status === 'ready' ? 'bg-green-500' : status === 'locked' ? 'bg-yellow-500' : 'bg-red-500'}`} />
+        <span className="text-gray-700">{STATUS_TEXT[status]}{status === 'ready' && isApiKeyEncrypted() ? ' It is stored encrypted.' : ''}</span>
+      </div>
+
+      {status === 'locked' && (
+        <form onSubmit={handleUnlock} className="flex flex-col gap-1">
+          <label htmlFor="api-key-unlock" className="text-sm font-semibold text-gray-800">Passphrase</label>
+          <div className="flex gap-2">
+            <input
+              id="api-key-unlock"
+              type="password"
+              value={unlockPassphrase}
+              onChange={(e) => setUnlockPassphrase(e.target.value)}
+              autoComplete="current-password"
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !unlockPassphrase}
+              className="bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Unlock
+            </button>
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-col gap-3">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="api-key-value" className="text-sm font-semibold text-gray-800">{status === 'missing' ? 'API key' : 'Replace API key'}</label>
+          <input
+            id="api-key-value"
+            type="password"
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            autoComplete="off"
+            spellCheck={false}
+            placeholder="AIza..."
+            className={inputClass}
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="api-key-passphrase" className="text-sm font-semibold text-gray-800">Passphrase (optional)</label>
+          <input
+            id="api-key-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500">Encrypts the saved key. You'll need the passphrase once after every reload.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="submit"
+            disabled={isBusy || !key.trim()}
+            className="bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBusy ? 'Checking...' : 'Check and save'}
+          </button>
+          {status !== 'missing' && (
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={isBusy}
+              className="text-sm font-semibold text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+            >
+              Remove key
+            </button>
+          )}
+        </div>
+      </form>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`} role="status">{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { getGenerationOptions, MAX_CANDIDATE_COUNT, setGenerationOptions } from '../../services/generationOptions';
+import { ConformMode, getResultValidationOptions, setResultValidationOptions } from '../../services/resultValidation';
+import { getMaskCompositingOptions, setMaskCompositingOptions } from '../../services/maskCompositing';
+import {
+  getLastUploadReport,
+  getPreprocessingOptions,
+  MAX_EDGE_PRESETS,
+  PreprocessingReport,
+  setPreprocessingOptions,
+  subscribeToPreprocessing,
+} from '../../services/imagePreprocessing';
+
+const CONFORM_MODES: { id: ConformMode; label: string }[] = [
+  { id: 'pad', label: 'Pad' },
+  { id: 'crop', label: 'Crop' },
+  { id: 'off', label: 'Leave as is' },
+];
+
+const FEATHER_PRESETS: { px: number; label: string }[] = [
+  { px: 0, label: 'Hard' },
+  { px: 8, label: 'Soft' },
+  { px: 24, label: 'Softer' },
+];
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const describeImage = (mimeType: string, width: number, height: number, bytes: number) =>
+  `${mimeType.replace('image/', '').toUpperCase()}, ${width}×${height}, ${formatBytes(bytes)}`;
+
+const describeUpload = (report: PreprocessingReport) =>
+  `${describeImage(report.originalMimeType, report.originalWidth, report.originalHeight, report.originalBytes)} → ${describeImage(report.mimeType, report.width, report.height, report.bytes)}`;
+
+const GenerationSettings: React.FC = () => {
+  const [candidateCount, setCandidateCount] = useState(() => getGenerationOptions().candidateCount);
+  const [conformMode, setConformMode] = useState<ConformMode>(() => getResultValidationOptions().conform);
+  const [featherPx, setFeatherPx] = useState(() => getMaskCompositingOptions().featherPx);
+  const [maxEdge, setMaxEdge] = useState(() => getPreprocessingOptions().maxEdge);
+  const [lastUpload, setLastUpload] = useState(getLastUploadReport);
+
+  useEffect(() => subscribeToPreprocessing(() => setLastUpload(getLastUploadReport())), []);
+
+  const handleCandidateCountChange = (count: number) => {
+    setGenerationOptions({ candidateCount: count });
+    setCandidateCount(getGenerationOptions().candidateCount);
+  };
+
+  const handleConformModeChange = (mode: ConformMode) => {
+    setResultValidationOptions({ conform: mode });
+    setConformMode(mode);
+  };
+
+  const handleFeatherChange = (px: number) => {
+    setMaskCompositingOptions({ featherPx: px });
+    setFeatherPx(getMaskCompositingOptions().featherPx);
+  };
+
+  const handleMaxEdgeChange = (px: number) => {
+    setPreprocessingOptions({ maxEdge: px });
+    setMaxEdge(getPreprocessingOptions().maxEdge);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-semibold text-gray-800">Variants per generation</h3>
+        <p className="text-sm text-gray-600">
+          Try-ons, poses and background changes can produce several variants to choose from. The ones you don't keep are saved as alternates of the layer. Each variant is a separate request.
+        </p>
+        <div className="flex gap-2" role="radiogroup" aria-label="Variants per generation">
+          {Array.from({ length: MAX_CANDIDATE_COUNT }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              onClick={() => handleCandidateCountChange(count)}
+              role="radio"
+              aria-checked={count === candidateCount}
+              className={`w-12 py-2 text-sm font-semibold rounded-lg border transition-colors ${count === candidateCount ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-semibold text-gray-800">Results with the wrong aspect ratio</h3>
+        <p className="text-sm text-gray-600">
+          Every result is measured against the selected aspect ratio. One that comes back in another shape is padded with its edge colour or cropped around the centre. If the shape or resolution is far off, the result is also flagged on the canvas so you can undo and try again.
+        </p>
+        <div className="flex gap-2" role="radiogroup" aria-label="Results with the wrong aspect ratio">
+          {CONFORM_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => handleConformModeChange(mode.id)}
+              role="radio"
+              aria-checked={mode.id === conformMode}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg border transition-colors ${mode.id === conformMode ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-semibold text-gray-800">Edges of masked edits</h3>
+        <p className="text-sm text-gray-600">
+          An edit made with the brush only changes the area you painted; everything else is kept exactly as it was. The edited area fades into the original over a few pixels inside its edge so the seam doesn't show.
+        </p>
+        <div className="flex gap-2" role="radiogroup" aria-label="Edges of masked edits">
+          {FEATHER_PRESETS.map(preset => (
+            <button
+              key={preset.px}
+              onClick={() => handleFeatherChange(preset.px)}
+              role="radio"
+              aria-checked={preset.px === featherPx}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg border transition-colors ${preset.px === featherPx ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-semibold text-gray-800">Size of uploaded photos</h3>
+        <p className="text-sm text-gray-600">
+          Photos are scaled down to this longest edge and re-encoded before they are sent, which also removes camera metadata such as location. Larger photos keep more detail but take longer to upload and cost more.
+        </p>
+        <div className="flex gap-2" role="radiogroup" aria-label="Size of uploaded photos">
+          {MAX_EDGE_PRESETS.map(px => (
+            <button
+              key={px}
+              onClick={() => handleMaxEdgeChange(px)}
+              role="radio"
+              aria-checked={px === maxEdge}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg border transition-colors ${px === maxEdge ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+            >
+              {px}px
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500" role="status">
+          {lastUpload ? `Last upload: ${describeUpload(lastUpload)}` : 'No photo has been uploaded in this session yet.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettings;
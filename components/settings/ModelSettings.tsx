@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { GenerationOperation, getImageProviderId } from '../../services/imageProvider';
+import {
+  DEFAULT_IMAGE_MODEL,
+  getGenerationOptions,
+  getOperationConfig,
+  KNOWN_IMAGE_MODELS,
+  OperationConfig,
+  setOperationConfig,
+} from '../../services/generationOptions';
+
+const OPERATIONS: { id: GenerationOperation; label: string }[] = [
+  { id: 'modelFromPhoto', label: 'Model from photo' },
+  { id: 'tryOn', label: 'Garment try-on' },
+  { id: 'addAccessory', label: 'Accessory' },
+  { id: 'poseVariation', label: 'Pose' },
+  { id: 'background', label: 'Background' },
+  { id: 'aspectRatio', label: 'Aspect ratio' },
+  { id: 'maskEdit', label: 'Masked edit' },
+  { id: 'segment', label: 'Area selection' },
+];
+
+interface ConfigDraft {
+  model: string;
+  temperature: string;
+  topP: string;
+  seed: string;
+}
+
+const toDraft = ({ model, temperature, topP, seed }: OperationConfig): ConfigDraft => ({
+  model: model ?? '',
+  temperature: temperature?.toString() ?? '',
+  topP: topP?.toString() ?? '',
+  seed: seed?.toString() ?? '',
+});
+
+const parseOptionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : parseFloat(value);
+
+const inputClass = 'w-full p-2 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const ModelSettings: React.FC = () => {
+  const isProxy = getImageProviderId() === 'proxy';
+  const [operation, setOperation] = useState<GenerationOperation>('tryOn');
+  const [draft, setDraft] = useState<ConfigDraft>(() => toDraft(getOperationConfig('tryOn')));
+  const [configured, setConfigured] = useState(() => getGenerationOptions().operations);
+  const [status, setStatus] = useState<string | null>(null);
+  const saved = toDraft(getOperationConfig(operation));
+  const isDirty = (Object.keys(draft) as (keyof ConfigDraft)[]).some(key => draft[key] !== saved[key]);
+
+  const handleSelect = (next: GenerationOperation) => {
+    setOperation(next);
+    setDraft(toDraft(getOperationConfig(next)));
+    setStatus(null);
+  };
+
+  const handleChange = (field: keyof ConfigDraft) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft({ ...draft, [field]: e.target.value });
+    setStatus(null);
+  };
+
+  const handleSave = () => {
+    setOperationConfig(operation, {
+      model: draft.model,
+      temperature: parseOptionalNumber(draft.temperature),
+      topP: parseOptionalNumber(draft.topP),
+      seed: parseOptionalNumber(draft.seed),
+    });
+    setDraft(toDraft(getOperationConfig(operation)));
+    setConfigured(getGenerationOptions().operations);
+    setStatus('Saved. The next generation of this kind uses these settings.');
+  };
+
+  const handleReset = () => {
+    setOperationConfig(operation, {});
+    setDraft(toDraft({}));
+    setConfigured(getGenerationOptions().operations);
+    setStatus('Restored the defaults.');
+  };
+
+  return (
+    // The proxy server picks the model and sampling settings itself.
+    <fieldset disabled={isProxy} className="flex flex-col gap-4 min-w-0">
+      <p className="text-sm text-gray-600">
+        Each kind of generation can use its own model and sampling settings, e.g. a cheaper model for pose previews. Empty fields use the defaults. The offline mock ignores the model.
+      </p>
+      {isProxy && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3" role="status">
+          Generations go through the proxy server, which chooses the model and sampling settings. These settings are turned off.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="model-operation" className="text-sm font-semibold text-gray-800">Operation</label>
+        <select
+          id="model-operation"
+          value={operation}
+          onChange={(e) => handleSelect(e.target.value as GenerationOperation)}
+          className={inputClass}
+        >
+          {OPERATIONS.map(op => (
+            <option key={op.id} value={op.id}>
+              {op.label}{configured[op.id] ? ' (custom)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="model-name" className="text-sm font-semibold text-gray-800">Model</label>
+        <input
+          id="model-name"
+          type="text"
+          list="model-suggestions"
+          value={draft.model}
+          onChange={handleChange('model')}
+          placeholder={DEFAULT_IMAGE_MODEL}
+          spellCheck={false}
+          className={inputClass}
+        />
+        <datalist id="model-suggestions">
+          {KNOWN_IMAGE_MODELS.map(model => <option key={model} value={model} />)}
+        </datalist>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="model-temperature" className="text-sm font-semibold text-gray-800">Temperature</label>
+          <input id="model-temperature" type="number" min="0" max="2" step="0.1" value={draft.temperature} onChange={handleChange('temperature')} placeholder="Default" className={inputClass} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="model-top-p" className="text-sm font-semibold text-gray-800">Top P</label>
+          <input id="model-top-p" type="number" min="0" max="1" step="0.05" value={draft.topP} onChange={handleChange('topP')} placeholder="Default" className={inputClass} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="model-seed" className="text-sm font-semibold text-gray-800">Seed</label>
+          <input id="model-seed" type="number" min="0" step="1" value={draft.seed} onChange={handleChange('seed')} placeholder="Random" className={inputClass} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">With a fixed seed the same request gives the same result more often; variants use the following seeds.</p>
+
+      {status && <p className="text-sm text-green-700" role="status">{status}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        {configured[operation] && (
+          <button
+            onClick={handleReset}
+            className="bg-white border border-gray-300 text-gray-700 font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-100"
+          >
+            Reset to defaults
+          </button>
+        )}
+      </div>
+    </fieldset>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import {
+  exportPromptOverrides,
+  getDefaultPromptTemplate,
+  importPromptOverrides,
+  listPromptTemplates,
+  PromptDefinition,
+  PromptName,
+  resetPromptOverride,
+  setPromptOverride,
+} from '../../services/promptRegistry';
+import { getImageProviderId } from '../../services/imageProvider';
+import { DownloadIcon, UploadCloudIcon } from '../icons';
+
+type Status = { type: 'success' | 'error'; text: string } | null;
+
+const PromptSettings: React.FC = () => {
+  const isProxy = getImageProviderId() === 'proxy';
+  const [templates, setTemplates] = useState<PromptDefinition[]>(() => listPromptTemplates());
+  const [selectedName, setSelectedName] = useState<PromptName>(() => templates[0].name);
+  const selected = templates.find(t => t.name === selectedName) ?? templates[0];
+  const [version, setVersion] = useState(selected.version);
+  const [template, setTemplate] = useState(selected.template);
+  const [status, setStatus] = useState<Status>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isDirty = version !== selected.version || template !== selected.template;
+
+  const refresh = (name: PromptName = selectedName) => {
+    const next = listPromptTemplates();
+    const current = next.find(t => t.name === name) ?? next[0];
+    setTemplates(next);
+    setSelectedName(current.name);
+    setVersion(current.version);
+    setTemplate(current.template);
+  };
+
+  const handleSelect = (name: PromptName) => {
+    setStatus(null);
+    refresh(name);
+  };
+
+  const handleSave = () => {
+    try {
+      setPromptOverride(selected.name, { version: version.trim(), template });
+      setStatus({ type: 'success', text: `Saved "${selected.label}" as version ${version.trim()}.` });
+      refresh();
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleReset = () => {
+    resetPromptOverride(selected.name);
+    setStatus({ type: 'success', text: `Restored the built-in "${selected.label}" template.` });
+    refresh();
+  };
+
+  const handleResetAll = () => {
+    resetPromptOverride();
+    setStatus({ type: 'success', text: 'Restored all built-in templates.' });
+    refresh();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptOverrides()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt-templates.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPromptOverrides(await file.text());
+      setStatus({ type: 'success', text: `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.` });
+      refresh();
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    // The proxy server builds prompts from its own templates, so edits here would have no effect.
+    <fieldset disabled={isProxy} className="flex flex-col gap-4 min-w-0">
+      <p className="text-sm text-gray-600">
+        Every generation uses one of these templates. Edits are saved on this device under a version of your choosing, which is recorded on each image they produce.
+      </p>
+      {isProxy && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3" role="status">
+          Generations go through the proxy server, which uses its own templates. Template edits are turned off.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="prompt-template" className="text-sm font-semibold text-gray-800">Template</label>
+        <select
+          id="prompt-template"
+          value={selected.name}
+          onChange={(e) => handleSelect(e.target.value as PromptName)}
+          className="w-full p-2 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        >
+          {templates.map(t => (
+            <option key={t.name} value={t.name}>
+              {t.label} (v{t.version}{t.isOverridden ? ', custom' : ''})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <span className="font-semibold">Variables:</span>
+        {selected.variables.length > 0
+          ? selected.variables.map(v => <code key={v} className="px-1.5 py-0.5 bg-gray-100 rounded">{`{{${v}}}`}</code>)
+          : <span>none</span>}
+        <span className="ml-auto">Built-in version: {getDefaultPromptTemplate(selected.name).version}</span>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="prompt-version" className="text-sm font-semibold text-gray-800">Version</label>
+        <input
+          id="prompt-version"
+          type="text"
+          value={version}
+          onChange={(e) => setVersion(e.target.value)}
+          className="w-40 p-2 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        />
+      </div>
+
+      <textarea
+        value={template}
+        onChange={(e) => setTemplate(e.target.value)}
+        rows={14}
+        spellCheck={false}
+        aria-label="Template text"
+        className="w-full p-3 font-mono text-xs text-gray-800 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      />
+
+      {status && (
+        <p className={`text-sm ${status.type === 'error' ? 'text-red-600' : 'text-green-700'}`} role="status">{status.text}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        {selected.isOverridden && (
+          <button
+            onClick={handleReset}
+            className="bg-white border border-gray-300 text-gray-700 font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-100"
+          >
+            Reset to built-in
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 text-sm font-semibold text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <UploadCloudIcon className="w-4 h-4" /> Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!templates.some(t => t.isOverridden)}
+            className="flex items-center gap-1.5 text-sm font-semibold text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" /> Export
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {templates.some(t => t.isOverridden) && (
+        <button
+          onClick={handleResetAll}
+          className="self-start text-xs font-semibold text-gray-500 hover:text-red-600 transition-colors"
+        >
+          Restore all built-in templates
+        </button>
+      )}
+    </fieldset>
+  );
+};
+
+export default PromptSettings;
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useSyncExternalStore } from 'react';
+import {
+  clearUsageLedger,
+  getUsageBudget,
+  getUsageEntries,
+  setUsageBudget,
+  subscribeToUsage,
+  summarizeUsage,
+  UsageEntry,
+  UsageSummary,
+} from '../../services/usageLedger';
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const SummaryCard: React.FC<{ title: string; summary: UsageSummary }> = ({ title, summary }) => (
+  <div className="flex-1 min-w-[12rem] p-3 bg-gray-50 border border-gray-200 rounded-lg">
+    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{title}</h4>
+    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+      <dt className="text-gray-500">Calls</dt>
+      <dd className="text-gray-800 font-medium text-right">{summary.calls}{summary.failures > 0 && <span className="text-red-600"> ({summary.failures} failed)</span>}</dd>
+      <dt className="text-gray-500">Est. cost</dt>
+      <dd className="text-gray-800 font-medium text-right">{formatCost(summary.estimatedCostUsd)}</dd>
+      <dt className="text-gray-500">Tokens</dt>
+      <dd className="text-gray-800 font-medium text-right">{summary.totalTokens.toLocaleString()}</dd>
+      <dt className="text-gray-500">Images sent</dt>
+      <dd className="text-gray-800 font-medium text-right">{formatBytes(summary.inputImageBytes)}</dd>
+      <dt className="text-gray-500">Avg. latency</dt>
+      <dd className="text-gray-800 font-medium text-right">{(summary.averageLatencyMs / 1000).toFixed(1)}s</dd>
+    </dl>
+  </div>
+);
+
+const UsageSettings: React.FC = () => {
+  const entries: UsageEntry[] = useSyncExternalStore(subscribeToUsage, getUsageEntries);
+  const [budgetInput, setBudgetInput] = useState(() => getUsageBudget().dailyLimitUsd?.toString() ?? '');
+  const session = summarizeUsage('session');
+  const today = summarizeUsage('day');
+  const recent = entries.slice(-8).reverse();
+
+  const handleBudgetSave = () => {
+    const value = parseFloat(budgetInput);
+    setUsageBudget({ dailyLimitUsd: budgetInput.trim() && value > 0 ? value : null });
+    setBudgetInput(getUsageBudget().dailyLimitUsd?.toString() ?? '');
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      <p className="text-sm text-gray-600">
+        Every model call is recorded on this device. Costs are estimates based on token usage and published prices; the offline mock is free.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <SummaryCard title="This session" summary={session} />
+        <SummaryCard title="Today" summary={today} />
+      </div>
+
+      {Object.keys(today.byOperation).length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Today by operation</h3>
+          <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {Object.entries(today.byOperation).map(([operation, { calls, estimatedCostUsd }]) => (
+              <li key={operation} className="flex justify-between px-3 py-1.5">
+                <span className="text-gray-700">{operation}</span>
+                <span className="text-gray-500">{calls} × · {formatCost(estimatedCostUsd)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="usage-budget" className="text-sm font-semibold text-gray-800">Daily budget (USD)</label>
+        <p className="text-xs text-gray-500">You'll be asked to confirm before starting a generation that would exceed it. Leave empty for no budget.</p>
+        <div className="flex gap-2">
+          <input
+            id="usage-budget"
+            type="number"
+            min="0"
+            step="0.1"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+            placeholder="No budget"
+            className="w-40 p-2 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleBudgetSave}
+            className="bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors hover:bg-gray-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {recent.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-800">Recent calls</h3>
+            <button onClick={clearUsageLedger} className="text-xs font-semibold text-gray-500 hover:text-red-600 transition-colors">
+              Clear history
+            </button>
+          </div>
+          <ul className="text-xs divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {recent.map(entry => (
+              <li key={entry.id} className="grid grid-cols-[1fr_auto] gap-x-2 px-3 py-1.5">
+                <span className="text-gray-700 truncate">
+                  <span className={`inline-block w-2 h-2 rounded-full mr-2 ${entry.success ? 'bg-green-500' : 'bg-red-500'}`} />
+                  {entry.operation} · {entry.model}
+                </span>
+                <span className="text-gray-500 text-right">{(entry.latencyMs / 1000).toFixed(1)}s · {entry.totalTokens.toLocaleString()} tok · {formatCost(entry.estimatedCostUsd)}</span>
+                {entry.error && <span className="col-span-2 text-red-600">{entry.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageSettings;
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Aspect ratios offered on the canvas, as "width:height" with their display names.
+export const ASPECT_RATIOS: Record<string, string> = {
+    '2:3': 'Portrait',
+    '1:1': 'Square',
+    '16:9': 'Landscape',
+};
+
+// Width divided by height, or undefined for anything that is not "width:height".
+export const parseAspectRatio = (aspectRatio: string): number | undefined => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width > 0 && height > 0 ? width / height : undefined;
+};
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Colour and tone adjustments that run on the GPU, so sliders preview at full
+// resolution without a model call. The image itself is never changed: the canvas
+// shows it through the shader, and a download renders the same shader once more.
+import type { ImageAdjustments } from '../types';
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = {
+    exposure: 0,
+    contrast: 0,
+    saturation: 0,
+    temperature: 0,
+    tint: 0,
+    sharpen: 0,
+};
+
+export interface AdjustmentControl {
+    id: keyof ImageAdjustments;
+    label: string;
+    min: number;
+    max: number;
+}
+
+export const ADJUSTMENT_CONTROLS: AdjustmentControl[] = [
+    { id: 'exposure', label: 'Exposure', min: -100, max: 100 },
+    { id: 'contrast', label: 'Contrast', min: -100, max: 100 },
+    { id: 'saturation', label: 'Saturation', min: -100, max: 100 },
+    { id: 'temperature', label: 'Temperature', min: -100, max: 100 },
+    { id: 'tint', label: 'Tint', min: -100, max: 100 },
+    { id: 'sharpen', label: 'Sharpen', min: 0, max: 100 },
+];
+
+export const isNeutralAdjustments = (adjustments: ImageAdjustments | undefined): boolean =>
+    !adjustments || ADJUSTMENT_CONTROLS.every(({ id }) => adjustments[id] === 0);
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_texCoord;
+void main() {
+    v_texCoord = (a_position + 1.0) / 2.0;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Order matters: sharpen works on the original pixels, exposure and white balance
+// act on light, then contrast and saturation shape the result.
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_image;
+uniform vec2 u_texelSize;
+uniform float u_exposure;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_temperature;
+uniform float u_tint;
+uniform float u_sharpen;
+varying vec2 v_texCoord;
+void main() {
+    vec4 color = texture2D(u_image, v_texCoord);
+    vec3 rgb = color.rgb;
+    if (u_sharpen > 0.0) {
+        vec3 neighbours = texture2D(u_image, v_texCoord + vec2(u_texelSize.x, 0.0)).rgb
+            + texture2D(u_image, v_texCoord - vec2(u_texelSize.x, 0.0)).rgb
+            + texture2D(u_image, v_texCoord + vec2(0.0, u_texelSize.y)).rgb
+            + texture2D(u_image, v_texCoord - vec2(0.0, u_texelSize.y)).rgb;
+        rgb += (rgb - neighbours / 4.0) * u_sharpen;
+    }
+    rgb *= exp2(u_exposure);
+    rgb *= vec3(1.0 + u_temperature, 1.0, 1.0 - u_temperature);
+    rgb *= vec3(1.0 + u_tint, 1.0 - u_tint, 1.0 + u_tint);
+    rgb = (rgb - 0.5) * (1.0 + u_contrast) + 0.5;
+    float luminance = dot(rgb, vec3(0.2126, 0.7152, 0.0722));
+    rgb = mix(vec3(luminance), rgb, 1.0 + u_saturation);
+    gl_FragColor = vec4(clamp(rgb, 0.0, 1.0), color.a);
+}`;
+
+// Slider values (-100 to 100) to shader units: exposure in stops, white balance as channel gains.
+const toUniforms = (adjustments: ImageAdjustments) => ({
+    u_exposure: adjustments.exposure / 50,
+    u_contrast: adjustments.contrast / 100,
+    u_saturation: adjustments.saturation / 100,
+    u_temperature: adjustments.temperature / 500,
+    u_tint: adjustments.tint / 1000,
+    u_sharpen: adjustments.sharpen / 50,
+});
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        throw new Error(`Could not compile the adjustment shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+};
+
+export interface AdjustmentRenderer {
+    /** Resizes the canvas to the image and draws it with the adjustments applied. */
+    render(image: HTMLImageElement, adjustments: ImageAdjustments): void;
+    /** Frees the GPU resources and the WebGL context itself; browsers only keep a handful of contexts alive. */
+    dispose(): void;
+}
+
+// Throws when the browser has no WebGL; callers then show the image unadjusted.
+export const createAdjustmentRenderer = (canvas: HTMLCanvasElement): AdjustmentRenderer => {
+    // The drawing buffer is kept so the canvas can be read back with toDataURL.
+    const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, premultipliedAlpha: false });
+    if (!gl) throw new Error('WebGL is not available to adjust the image.');
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(`Could not link the adjustment shader: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.useProgram(program);
+
+    // Two triangles covering the canvas.
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    // WebGL 1 only samples textures that are not a power of two in size without mipmaps and with clamped edges.
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+    let uploadedImage: HTMLImageElement | null = null;
+
+    return {
+        render(image, adjustments) {
+            if (image !== uploadedImage) {
+                canvas.width = image.naturalWidth;
+                canvas.height = image.naturalHeight;
+                gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+                uploadedImage = image;
+            }
+            gl.viewport(0, 0, canvas.width, canvas.height);
+            gl.uniform2f(gl.getUniformLocation(program, 'u_texelSize'), 1 / canvas.width, 1 / canvas.height);
+            Object.entries(toUniforms(adjustments)).forEach(([name, value]) => {
+                gl.uniform1f(gl.getUniformLocation(program, name), value);
+            });
+            gl.drawArrays(gl.TRIANGLES, 0, 6);
+        },
+        dispose() {
+            gl.deleteTexture(texture);
+            gl.deleteBuffer(buffer);
+            gl.deleteProgram(program);
+            gl.getExtension('WEBGL_lose_context')?.loseContext();
+            uploadedImage = null;
+        },
+    };
+};
+
+// One offscreen renderer serves every export, so repeated downloads never open new contexts.
+let exportRenderer: { canvas: HTMLCanvasElement; renderer: AdjustmentRenderer } | null = null;
+
+const getExportRenderer = () => {
+    if (!exportRenderer) {
+        const canvas = document.createElement('canvas');
+        exportRenderer = { canvas, renderer: createAdjustmentRenderer(canvas) };
+    }
+    return exportRenderer;
+};
+
+// Renders an adjusted copy of the image as PNG, e.g. for download.
+export const renderAdjustedImage = (imageUrl: string, adjustments: ImageAdjustments): Promise<string> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+        try {
+            const { canvas, renderer } = getExportRenderer();
+            renderer.render(image, adjustments);
+            resolve(canvas.toDataURL('image/png'));
+        } catch (e) {
+            reject(e);
+        }
+    };
+    image.onerror = () => reject(new Error('Could not decode the image to adjust.'));
+    image.src = imageUrl;
+});
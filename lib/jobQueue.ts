@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isAbortError } from './utils';
+
+// A small observable job queue. Jobs run in the order they were enqueued, at most
+// `concurrency` at a time, and each one gets its own AbortSignal so it can be
+// cancelled individually. The snapshot array is replaced on every change, which
+// makes it suitable for React's useSyncExternalStore.
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job<TMeta> {
+  id: string;
+  label: string;
+  status: JobStatus;
+  message: string;
+  error?: string;
+  meta: TMeta;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setMessage: (message: string) => void;
+}
+
+export type JobTask = (context: JobContext) => Promise<void>;
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  describeError?: (error: unknown, label: string) => string;
+}
+
+export interface JobQueue<TMeta> {
+  enqueue: (label: string, meta: TMeta, task: JobTask) => string;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  dismiss: (id: string) => void;
+  clearFinished: () => void;
+  getSnapshot: () => Job<TMeta>[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const isJobActive = (job: Job<unknown>) => job.status === 'pending' || job.status === 'running';
+
+export const createJobQueue = <TMeta>({ concurrency = 1, describeError }: JobQueueOptions = {}): JobQueue<TMeta> => {
+  let jobs: Job<TMeta>[] = [];
+  let nextId = 0;
+  const tasks = new Map<string, { task: JobTask; controller: AbortController }>();
+  const listeners = new Set<() => void>();
+
+  const update = (id: string, changes: Partial<Job<TMeta>>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    listeners.forEach(listener => listener());
+  };
+
+  const run = async (job: Job<TMeta>) => {
+    const entry = tasks.get(job.id);
+    if (!entry) return;
+    update(job.id, { status: 'running' });
+    try {
+      await entry.task({
+        signal: entry.controller.signal,
+        setMessage: message => update(job.id, { message }),
+      });
+      update(job.id, { status: 'done' });
+    } catch (error) {
+      if (isAbortError(error) || entry.controller.signal.aborted) {
+        update(job.id, { status: 'cancelled', message: 'Cancelled' });
+      } else {
+        const message = describeError ? describeError(error, job.label) : String(error);
+        update(job.id, { status: 'failed', message, error: message });
+      }
+    } finally {
+      tasks.delete(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const startable = jobs.filter(job => job.status === 'pending').slice(0, Math.max(0, concurrency - running));
+    startable.forEach(job => { void run(job); });
+  };
+
+  return {
+    enqueue: (label, meta, task) => {
+      const id = `job-${Date.now()}-${nextId++}`;
+      tasks.set(id, { task, controller: new AbortController() });
+      jobs = [...jobs, { id, label, status: 'pending', message: 'Queued', meta }];
+      listeners.forEach(listener => listener());
+      pump();
+      return id;
+    },
+    cancel: id => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || !isJobActive(job)) return;
+      tasks.get(id)?.controller.abort();
+      if (job.status === 'pending') {
+        tasks.delete(id);
+        update(id, { status: 'cancelled', message: 'Cancelled' });
+      }
+    },
+    cancelAll: () => {
+      jobs.filter(isJobActive).forEach(job => {
+        tasks.get(job.id)?.controller.abort();
+        if (job.status === 'pending') tasks.delete(job.id);
+      });
+      jobs = jobs.map(job => job.status === 'pending' ? { ...job, status: 'cancelled', message: 'Cancelled' } : job);
+      listeners.forEach(listener => listener());
+    },
+    dismiss: id => {
+      jobs = jobs.filter(job => job.id !== id || isJobActive(job));
+      listeners.forEach(listener => listener());
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(isJobActive);
+      listeners.forEach(listener => listener());
+    },
+    getSnapshot: () => jobs,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
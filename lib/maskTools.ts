@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Selection tools of the annotation mask. White marks the area to edit and black
+// the area to keep, so painting black is how the eraser removes a selection.
+// Each tool turns the points collected from the pointer into a shape on the mask;
+// the modal restores the last history state before every render, so a tool only
+// ever draws its complete shape and the preview is the same code as the result.
+
+export interface Point {
+    x: number;
+    y: number;
+    /** Pen pressure from 0 to 1; unset for mice and fingers. */
+    pressure?: number;
+}
+
+export interface MaskShapeStyle {
+    /** Stroke width in mask pixels. */
+    lineWidth: number;
+    /** Blur radius in mask pixels applied to the edge of the shape. */
+    softness: number;
+}
+
+export type MaskToolId = 'select' | 'brush' | 'eraser' | 'lasso' | 'polygon' | 'rectangle';
+
+export interface MaskTool {
+    id: MaskToolId;
+    label: string;
+    /**
+     * `drag` collects points while the pointer is held; `click` adds one point per click until the shape is closed.
+     * `tap` tools draw nothing themselves: the modal asks for the area under the tap (see services/segmentation.ts).
+     */
+    input: 'drag' | 'click' | 'tap';
+    usesBrushSize: boolean;
+    /** Whether the shape takes the "Soft edge" setting; `tap` tools add a finished mask instead. */
+    usesSoftness: boolean;
+    hint: string;
+    /** Draws the shape; `preview` is set while a `click` shape is still open. */
+    render(ctx: CanvasRenderingContext2D, points: Point[], style: MaskShapeStyle, preview: boolean): void;
+}
+
+// Normal pen pressure (0.5) draws at the set width; the range runs from a fifth to almost twice that.
+const widthAtPressure = (lineWidth: number, pressure: number) => lineWidth * (0.2 + pressure * 1.6);
+
+const traceStroke = (ctx: CanvasRenderingContext2D, points: Point[], color: string, { lineWidth }: MaskShapeStyle) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    if (points.some(point => point.pressure !== undefined)) {
+        // Each segment gets its own width, so the stroke is drawn piece by piece.
+        points.forEach((point, i) => {
+            const previous = points[Math.max(0, i - 1)];
+            ctx.lineWidth = widthAtPressure(lineWidth, ((previous.pressure ?? 0.5) + (point.pressure ?? 0.5)) / 2);
+            ctx.beginPath();
+            ctx.moveTo(previous.x, previous.y);
+            ctx.lineTo(point.x, point.y);
+            ctx.stroke();
+        });
+        return;
+    }
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    // A single point still leaves a round dot.
+    for (const point of points.length > 1 ? points.slice(1) : points) {
+        ctx.lineTo(point.x, point.y);
+    }
+    ctx.stroke();
+};
+
+const fillOutline = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+    if (points.length < 3) return;
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+};
+
+export const MASK_TOOLS: MaskTool[] = [
+    {
+        id: 'select',
+        label: 'Select',
+        input: 'tap',
+        usesBrushSize: false,
+        usesSoftness: false,
+        hint: 'Tap a garment, the hair or the background to select it, then refine the selection with the brush or eraser.',
+        render: () => {},
+    },
+    {
+        id: 'brush',
+        label: 'Brush',
+        input: 'drag',
+        usesBrushSize: true,
+        usesSoftness: true,
+        hint: 'Paint over the area you want to change.',
+        render: (ctx, points, style) => traceStroke(ctx, points, 'white', style),
+    },
+    {
+        id: 'eraser',
+        label: 'Eraser',
+        input: 'drag',
+        usesBrushSize: true,
+        usesSoftness: true,
+        hint: 'Paint to remove parts of the selection.',
+        render: (ctx, points, style) => traceStroke(ctx, points, 'black', style),
+    },
+    {
+        id: 'lasso',
+        label: 'Lasso',
+        input: 'drag',
+        usesBrushSize: false,
+        usesSoftness: true,
+        hint: 'Draw around an area; it is filled when you let go.',
+        render: (ctx, points) => fillOutline(ctx, points),
+    },
+    {
+        id: 'polygon',
+        label: 'Polygon',
+        input: 'click',
+        usesBrushSize: false,
+        usesSoftness: true,
+        hint: 'Click to place corners. Double-click or click the first corner to close the shape.',
+        render: (ctx, points, style, preview) => {
+            if (preview) {
+                traceStroke(ctx, points, 'white', { ...style, lineWidth: Math.max(1, style.lineWidth / 8) });
+            } else {
+                fillOutline(ctx, points);
+            }
+        },
+    },
+    {
+        id: 'rectangle',
+        label: 'Rectangle',
+        input: 'drag',
+        usesBrushSize: false,
+        usesSoftness: true,
+        hint: 'Drag from one corner to the opposite one.',
+        render: (ctx, points) => {
+            const start = points[0];
+            const end = points[points.length - 1];
+            ctx.fillStyle = 'white';
+            ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+        },
+    },
+];
+
+export const getMaskTool = (id: MaskToolId): MaskTool => MASK_TOOLS.find(tool => tool.id === id) ?? MASK_TOOLS[0];
+
+// Renders a tool's shape with its edge softened by `style.softness`.
+export const drawMaskShape = (ctx: CanvasRenderingContext2D, tool: MaskTool, points: Point[], style: MaskShapeStyle, preview = false) => {
+    if (points.length === 0) return;
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.filter = !preview && style.softness > 0 ? `blur(${style.softness}px)` : 'none';
+    tool.render(ctx, points, style, preview);
+    ctx.restore();
+};
+
+// Adds a black and white mask image (e.g. from area selection) to the selection on `ctx`.
+export const addMaskImage = (ctx: CanvasRenderingContext2D, maskImageUrl: string): Promise<void> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+        ctx.save();
+        ctx.globalCompositeOperation = 'lighten';
+        ctx.drawImage(image, 0, 0, ctx.canvas.width, ctx.canvas.height);
+        ctx.restore();
+        resolve();
+    };
+    image.onerror = () => reject(new Error('Could not decode the selected area.'));
+    image.src = maskImageUrl;
+});
+
+// An undo state of a mask. Masks are grey and opaque, so one byte per pixel keeps
+// everything an ImageData would, in a quarter of the memory.
+export interface MaskSnapshot {
+    width: number;
+    height: number;
+    values: Uint8Array;
+}
+
+export const createBlankMask = (width: number, height: number): MaskSnapshot =>
+    ({ width, height, values: new Uint8Array(width * height) });
+
+export const captureMask = (ctx: CanvasRenderingContext2D): MaskSnapshot => {
+    const { width, height } = ctx.canvas;
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const values = new Uint8Array(width * height);
+    for (let i = 0; i < values.length; i++) {
+        values[i] = data[i * 4];
+    }
+    return { width, height, values };
+};
+
+export const maskToImageData = ({ width, height, values }: MaskSnapshot): ImageData => {
+    const imageData = new ImageData(width, height);
+    const { data } = imageData;
+    for (let i = 0; i < values.length; i++) {
+        data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = values[i];
+        data[i * 4 + 3] = 255;
+    }
+    return imageData;
+};
+
+// Swaps the selected and unselected areas, keeping soft edges soft.
+export const invertMask = (ctx: CanvasRenderingContext2D) => {
+    const { width, height } = ctx.canvas;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = 255 - data[i];
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// Rough position of the selected part of a mask, e.g. "upper left" or "center", or null when nothing is selected.
+export const describeMaskLocation = ({ width, height, data }: ImageData): string | null => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    const third = (center: number, size: number) => Math.min(2, Math.floor((center / size) * 3));
+    const vertical = ['upper', 'middle', 'lower'][third((minY + maxY) / 2, height)];
+    const horizontal = ['left', 'center', 'right'][third((minX + maxX) / 2, width)];
+    if (vertical === 'middle') return horizontal === 'center' ? 'center' : `middle ${horizontal}`;
+    return horizontal === 'center' ? vertical : `${vertical} ${horizontal}`;
+};
@@ -4,12 +4,60 @@
 */
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { ApiKeyError, NetworkError, PromptRejectedError, RateLimitedError, SafetyBlockedError, TimeoutError, UnsupportedMimeError } from "../services/errors";
+import { checkUsageBudget } from "../services/usageLedger";
+import { HEIC_MIME_TYPES } from "../services/imagePreprocessing";
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Rejects as soon as the signal aborts, even if the wrapped work cannot be interrupted itself.
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// Asks the user before starting a generation that would go over their daily budget.
+export function confirmWithinBudget(operation: string, calls = 1): boolean {
+    const warning = checkUsageBudget(operation, calls);
+    return !warning || window.confirm(`${warning}\n\nStart it anyway?`);
+}
+
 export function getFriendlyErrorMessage(error: unknown, context: string): string {
+    if (error instanceof UnsupportedMimeError) {
+        if (error.mimeType && HEIC_MIME_TYPES.includes(error.mimeType)) {
+            return `This browser can't read HEIC photos. Please convert the photo to JPEG or PNG first, or use Safari.`;
+        }
+        return error.mimeType
+            ? `File type '${error.mimeType}' is not supported. Please use a format like PNG, JPEG, or WEBP.`
+            : `Unsupported file format. Please upload an image format like PNG, JPEG, or WEBP.`;
+    }
+    if (error instanceof PromptRejectedError || error instanceof ApiKeyError) {
+        return `${context}. ${error.message}`;
+    }
+    if (error instanceof SafetyBlockedError) {
+        return `${context}. The request was blocked by content safety filters (${error.reason}). Please try a different image or prompt.`;
+    }
+    if (error instanceof RateLimitedError) {
+        return `${context}. The image service is busy right now. Please wait a moment and try again.`;
+    }
+    if (error instanceof NetworkError) {
+        return `${context}. ${error.message}`;
+    }
+    if (error instanceof TimeoutError) {
+        return `${context}. The image service took too long to respond. Please try again.`;
+    }
+
     let rawMessage = 'An unknown error occurred.';
     if (error instanceof Error) {
         rawMessage = error.message;
@@ -18,23 +66,6 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
     } else if (error) {
         rawMessage = String(error);
     }
-
-    // Check for specific unsupported MIME type error from Gemini API
-    if (rawMessage.includes("Unsupported MIME type")) {
-        try {
-            // It might be a JSON string like '{"error":{"message":"..."}}'
-            const errorJson = JSON.parse(rawMessage);
-            const nestedMessage = errorJson?.error?.message;
-            if (nestedMessage && nestedMessage.includes("Unsupported MIME type")) {
-                const mimeType = nestedMessage.split(': ')[1] || 'unsupported';
-                return `File type '${mimeType}' is not supported. Please use a format like PNG, JPEG, or WEBP.`;
-            }
-        } catch (e) {
-            // Not a JSON string, but contains the text. Fallthrough to generic message.
-        }
-        // Generic fallback for any "Unsupported MIME type" error
-        return `Unsupported file format. Please upload an image format like PNG, JPEG, or WEBP.`;
-    }
     
     return `${context}. ${rawMessage}`;
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createGeminiProvider } from "../services/providers/geminiProvider";
+import { ResultBody, toErrorResponse } from "../services/proxyProtocol";
+import { subscribeToUsageReports, UsageReport } from "../services/usageLedger";
+import { RateLimitedError } from "../services/errors";
+import { BadRequestError, getCandidateCount, isGenerationOperation, OPERATION_HANDLERS } from "./operations";
+import { createRateLimiter } from "./rateLimiter";
+
+// Optional proxy that runs the generation operations server-side, so the Gemini
+// API key never reaches the browser. Configured through environment variables:
+//   GEMINI_API_KEY         required
+//   PORT                   default 8787
+//   RATE_LIMIT_PER_MINUTE  model calls per user and minute, default 20
+//   USER_HEADER            header naming the user (set by your auth proxy), default x-forwarded-user;
+//                          requests without it are limited by client address
+//   ALLOWED_ORIGIN         enables CORS for this origin, e.g. http://localhost:3000 during development
+//   STATIC_DIR             built app to serve alongside the API, default dist
+
+const config = {
+  apiKey: process.env.GEMINI_API_KEY,
+  port: Number(process.env.PORT ?? 8787),
+  ratePerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE ?? 20),
+  userHeader: (process.env.USER_HEADER ?? 'x-forwarded-user').toLowerCase(),
+  allowedOrigin: process.env.ALLOWED_ORIGIN,
+  staticDir: path.resolve(process.env.STATIC_DIR ?? 'dist'),
+};
+
+const API_PREFIX = '/api/';
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+};
+
+// The shared services keep their settings in localStorage; on the server they live in memory.
+const memoryStorage = new Map<string, string>();
+globalThis.localStorage ??= {
+  get length() { return memoryStorage.size; },
+  key: (index: number) => Array.from(memoryStorage.keys())[index] ?? null,
+  getItem: (key: string) => memoryStorage.get(key) ?? null,
+  setItem: (key: string, value: string) => { memoryStorage.set(key, String(value)); },
+  removeItem: (key: string) => { memoryStorage.delete(key); },
+  clear: () => memoryStorage.clear(),
+};
+
+const provider = createGeminiProvider({ apiKey: config.apiKey });
+
+// Collects the model calls made while handling one request, so they can be sent back with its result.
+const requestUsage = new AsyncLocalStorage<UsageReport[]>();
+subscribeToUsageReports(report => requestUsage.getStore()?.push(report));
+const rateLimiter = createRateLimiter(config.ratePerMinute);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, type: string, message: string, headers?: Record<string, string>) =>
+  sendJson(res, status, { error: { type, message } }, headers);
+
+const getUser = (req: IncomingMessage): string => {
+  const header = req.headers[config.userHeader];
+  const user = Array.isArray(header) ? header[0] : header;
+  return user ? `user:${user}` : `address:${req.socket.remoteAddress ?? 'unknown'}`;
+};
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super('The upload is too large.');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+// Chunked uploads carry no content-length, so the limit is enforced on the bytes as they arrive.
+async function* limitBody(req: IncomingMessage, onTooLarge: () => void) {
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > MAX_UPLOAD_BYTES) {
+      onTooLarge();
+      throw new PayloadTooLargeError();
+    }
+    yield chunk;
+  }
+}
+
+const readForm = async (req: IncomingMessage): Promise<FormData> => {
+  let isTooLarge = false;
+  const request = new Request(`http://localhost${req.url}`, {
+    method: 'POST',
+    headers: req.headers as Record<string, string>,
+    body: Readable.toWeb(Readable.from(limitBody(req, () => { isTooLarge = true; }))) as ReadableStream,
+    duplex: 'half',
+  } as RequestInit);
+  try {
+    return await request.formData();
+  } catch {
+    throw isTooLarge ? new PayloadTooLargeError() : new BadRequestError('The request body must be multipart/form-data.');
+  }
+};
+
+const handleOperation = async (req: IncomingMessage, res: ServerResponse, operationName: string) => {
+  if (!isGenerationOperation(operationName)) {
+    return sendError(res, 404, 'Error', `Unknown operation "${operationName}".`);
+  }
+  if (Number(req.headers['content-length'] ?? 0) > MAX_UPLOAD_BYTES) {
+    return sendError(res, 413, 'Error', 'The upload is too large.', { Connection: 'close' });
+  }
+
+  const form = await readForm(req);
+  const waitMs = rateLimiter.take(getUser(req), getCandidateCount(form));
+  if (waitMs > 0) {
+    const { status, body } = toErrorResponse(new RateLimitedError('You have made too many requests. Please wait a moment.', waitMs));
+    return sendJson(res, status, body, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+  }
+
+  // Stop generating when the client goes away.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const usage: UsageReport[] = [];
+  const result = await requestUsage.run(usage, () => OPERATION_HANDLERS[operationName](provider, form, controller.signal));
+  if (String(req.headers.accept).includes('application/json')) {
+    const body: ResultBody = { ...result, usage };
+    return sendJson(res, 200, body);
+  }
+  const [header, data] = result.imageUrl.split(',');
+  res.writeHead(200, {
+    'Content-Type': header.slice('data:'.length, header.indexOf(';')),
+    'X-Alternate-Count': String(result.alternates?.length ?? 0),
+    ...(result.promptTemplate ? { 'X-Prompt-Template': `${result.promptTemplate.name}@${result.promptTemplate.version}` } : {}),
+  });
+  res.end(Buffer.from(data, 'base64'));
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  let filePath = path.join(config.staticDir, urlPath);
+  if (path.relative(config.staticDir, filePath).startsWith('..')) {
+    return sendError(res, 403, 'Error', 'Forbidden.');
+  }
+  const info = await stat(filePath).catch(() => null);
+  // Unknown paths fall back to the app itself.
+  if (!info || info.isDirectory()) {
+    filePath = path.join(config.staticDir, 'index.html');
+  }
+  try {
+    const content = await readFile(filePath);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+    res.end(content);
+  } catch (e) {
+    sendError(res, 404, 'Error', 'Not found.');
+  }
+};
+
+const server = createServer(async (req, res) => {
+  if (config.allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, Accept, ${config.userHeader}`);
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Alternate-Count, X-Prompt-Template');
+  }
+  const url = req.url ?? '/';
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST' });
+      res.end();
+    } else if (url === `${API_PREFIX}health`) {
+      sendJson(res, 200, { ok: true });
+    } else if (url.startsWith(API_PREFIX)) {
+      if (req.method !== 'POST') {
+        sendError(res, 405, 'Error', 'Use POST.');
+      } else {
+        await handleOperation(req, res, url.slice(API_PREFIX.length).split('?')[0]);
+      }
+    } else {
+      await serveStatic(req, res);
+    }
+  } catch (error) {
+    if (res.headersSent || res.destroyed) return;
+    if (error instanceof PayloadTooLargeError) {
+      // The rest of the upload is not read, so the connection cannot be reused.
+      sendError(res, 413, 'Error', error.message, { Connection: 'close' });
+      return;
+    }
+    if (error instanceof BadRequestError) {
+      sendError(res, 400, 'Error', error.message);
+      return;
+    }
+    const { status, body } = toErrorResponse(error);
+    if (status === 500) console.error(`Request to ${url} failed`, error);
+    sendJson(res, status, body);
+  }
+});
+
+if (!config.apiKey) {
+  console.error('GEMINI_API_KEY is not set. The proxy server needs it to call Gemini.');
+  process.exit(1);
+}
+
+server.listen(config.port, () => {
+  console.log(`Proxy server listening on http://localhost:${config.port}${API_PREFIX}`);
+});
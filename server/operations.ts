@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationOperation, GenerationResult, ImageGenerationProvider } from "../services/imageProvider";
+import { MAX_CANDIDATE_COUNT } from "../services/generationOptions";
+import { preparePromptInput } from "../services/promptSafety";
+
+// Maps the multipart form of each endpoint onto a provider call. Field names
+// match what services/providers/proxyProvider.ts sends. User text is checked
+// again here, since the server cannot trust the client to have done it.
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+const requireFile = (form: FormData, name: string): File => {
+  const value = form.get(name);
+  if (!(value instanceof File)) {
+    throw new BadRequestError(`The "${name}" image is missing.`);
+  }
+  return value;
+};
+
+const requireText = (form: FormData, name: string): string => {
+  const value = form.get(name);
+  if (typeof value !== 'string' || value === '') {
+    throw new BadRequestError(`The "${name}" field is missing.`);
+  }
+  return value;
+};
+
+const requireFraction = (form: FormData, name: string): number => {
+  const value = Number(requireText(form, name));
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new BadRequestError(`The "${name}" field must be a number between 0 and 1.`);
+  }
+  return value;
+};
+
+const optionalText = (form: FormData, name: string): string | undefined => {
+  const value = form.get(name);
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+};
+
+// The provider takes images from the outfit history as data URLs.
+const fileToDataUrl = async (file: File): Promise<string> =>
+  `data:${file.type || 'application/octet-stream'};base64,${Buffer.from(await file.arrayBuffer()).toString('base64')}`;
+
+export const getCandidateCount = (form: FormData): number => {
+  const value = parseInt(optionalText(form, 'candidateCount') ?? '1', 10);
+  return Number.isFinite(value) ? Math.min(MAX_CANDIDATE_COUNT, Math.max(1, value)) : 1;
+};
+
+type OperationHandler = (provider: ImageGenerationProvider, form: FormData, signal: AbortSignal) => Promise<GenerationResult>;
+
+export const OPERATION_HANDLERS: Record<GenerationOperation, OperationHandler> = {
+  modelFromPhoto: async (provider, form, signal) => {
+    const customInstructions = optionalText(form, 'customInstructions');
+    return provider.modelFromPhoto({
+      userImage: requireFile(form, 'userImage'),
+      customInstructions: customInstructions ? preparePromptInput('customInstructions', customInstructions) : undefined,
+      signal,
+    });
+  },
+
+  tryOn: async (provider, form, signal) => provider.tryOn({
+    modelImageUrl: await fileToDataUrl(requireFile(form, 'modelImage')),
+    garmentImage: requireFile(form, 'garmentImage'),
+    aspectRatio: requireText(form, 'aspectRatio'),
+    candidateCount: getCandidateCount(form),
+    signal,
+  }),
+
+  addAccessory: async (provider, form, signal) => provider.addAccessory({
+    modelImageUrl: await fileToDataUrl(requireFile(form, 'modelImage')),
+    accessoryImage: requireFile(form, 'accessoryImage'),
+    aspectRatio: requireText(form, 'aspectRatio'),
+    candidateCount: getCandidateCount(form),
+    signal,
+  }),
+
+  poseVariation: async (provider, form, signal) => provider.poseVariation({
+    tryOnImageUrl: await fileToDataUrl(requireFile(form, 'tryOnImage')),
+    poseInstruction: preparePromptInput('poseInstruction', requireText(form, 'poseInstruction')),
+    aspectRatio: requireText(form, 'aspectRatio'),
+    candidateCount: getCandidateCount(form),
+    signal,
+  }),
+
+  background: async (provider, form, signal) => {
+    const backgroundImage = form.get('backgroundImage');
+    return provider.background({
+      baseImageUrl: await fileToDataUrl(requireFile(form, 'baseImage')),
+      background: backgroundImage instanceof File
+        ? { type: 'image', image: backgroundImage }
+        : { type: 'prompt', prompt: preparePromptInput('backgroundPrompt', requireText(form, 'backgroundPrompt')) },
+      aspectRatio: requireText(form, 'aspectRatio'),
+      candidateCount: getCandidateCount(form),
+      signal,
+    });
+  },
+
+  aspectRatio: async (provider, form, signal) => provider.aspectRatio({
+    baseImageUrl: await fileToDataUrl(requireFile(form, 'baseImage')),
+    aspectRatio: requireText(form, 'aspectRatio'),
+    signal,
+  }),
+
+  maskEdit: async (provider, form, signal) => provider.maskEdit({
+    baseImageUrl: await fileToDataUrl(requireFile(form, 'baseImage')),
+    maskImageUrl: await fileToDataUrl(requireFile(form, 'maskImage')),
+    prompt: preparePromptInput('maskEditRequest', requireText(form, 'prompt')),
+    aspectRatio: requireText(form, 'aspectRatio'),
+    signal,
+  }),
+
+  segment: async (provider, form, signal) => provider.segment({
+    baseImageUrl: await fileToDataUrl(requireFile(form, 'baseImage')),
+    point: { x: requireFraction(form, 'x'), y: requireFraction(form, 'y') },
+    signal,
+  }),
+};
+
+export const isGenerationOperation = (value: string): value is GenerationOperation =>
+  Object.prototype.hasOwnProperty.call(OPERATION_HANDLERS, value);
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Sliding-window limit on model calls per user. A request for several variants
+// costs one call per variant, since that is what the server sends to Gemini.
+
+export interface RateLimiter {
+  /** Records the calls and returns 0, or returns how long to wait (ms) without recording anything. */
+  take(user: string, calls?: number): number;
+}
+
+export const createRateLimiter = (limit: number, windowMs = 60_000): RateLimiter => {
+  const history = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  // Forgets users whose calls have all left the window, so the map only holds recent users.
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const [user, times] of history) {
+      if (times[times.length - 1] <= now - windowMs) history.delete(user);
+    }
+  };
+
+  return {
+    take(user, calls = 1) {
+      const now = Date.now();
+      sweep(now);
+      const recent = (history.get(user) ?? []).filter(time => time > now - windowMs);
+      if (recent.length + calls > limit) {
+        if (recent.length > 0) {
+          history.set(user, recent);
+        } else {
+          history.delete(user);
+        }
+        // Wait until enough of the oldest calls leave the window (or a full window if the request can never fit).
+        const freeAt = recent[recent.length + calls - limit - 1];
+        return freeAt === undefined ? windowMs : freeAt + windowMs - now;
+      }
+      history.set(user, [...recent, ...Array<number>(calls).fill(now)]);
+      return 0;
+    },
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { ApiKeyError, NetworkError } from "./errors";
+import { DEFAULT_IMAGE_MODEL } from "./generationOptions";
+
+// The Gemini API key entered by the user, kept on this device instead of in the
+// bundle. It is stored as is, or encrypted with a passphrase (PBKDF2 + AES-GCM).
+// An encrypted key has to be unlocked once per page load; the plain key only
+// ever lives in memory.
+
+export type ApiKeyStatus = 'missing' | 'locked' | 'ready';
+
+type StoredApiKey =
+  | { type: 'plain'; key: string }
+  | { type: 'encrypted'; salt: string; iv: string; data: string };
+
+const API_KEY_STORAGE_KEY = 'my-fit-check-api-key';
+const PBKDF2_ITERATIONS = 310_000;
+
+let unlockedKey: string | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const readStoredKey = (): StoredApiKey | null => {
+  try {
+    const stored = localStorage.getItem(API_KEY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("Failed to read the API key from localStorage", e);
+    return null;
+  }
+};
+
+const writeStoredKey = (stored: StoredApiKey | null) => {
+  try {
+    if (stored) {
+      localStorage.setItem(API_KEY_STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      localStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to save the API key to localStorage", e);
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const encryptKey = async (key: string, passphrase: string): Promise<StoredApiKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipherKey = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cipherKey, new TextEncoder().encode(key));
+  return { type: 'encrypted', salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const getApiKeyStatus = (): ApiKeyStatus => {
+  if (unlockedKey) return 'ready';
+  const stored = readStoredKey();
+  if (!stored) return 'missing';
+  return stored.type === 'plain' ? 'ready' : 'locked';
+};
+
+export const isApiKeyEncrypted = (): boolean => readStoredKey()?.type === 'encrypted';
+
+// Returns the key to call Gemini with, or throws an ApiKeyError telling the user what to do.
+export const getApiKey = (): string => {
+  if (unlockedKey) return unlockedKey;
+  const stored = readStoredKey();
+  if (stored?.type === 'plain') return stored.key;
+  if (stored?.type === 'encrypted') {
+    throw new ApiKeyError('locked', 'Your Gemini API key is locked. Unlock it with your passphrase under Settings → API key.');
+  }
+  throw new ApiKeyError('missing', 'No Gemini API key is set. Add one under Settings → API key.');
+};
+
+// Checks the key against the API by looking up the default image model.
+export const validateApiKey = async (key: string): Promise<void> => {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.get({ model: DEFAULT_IMAGE_MODEL });
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 400 || error.status === 401 || error.status === 403)) {
+      throw new ApiKeyError('invalid', 'Gemini rejected this API key. Check that it was copied in full.', { cause: error });
+    }
+    if (error instanceof TypeError) {
+      throw new NetworkError('Could not reach Gemini to check the key. Please check your connection.', { cause: error });
+    }
+    throw error;
+  }
+};
+
+// Validates the key, then stores it, encrypted when a passphrase is given.
+export const saveApiKey = async (key: string, passphrase?: string): Promise<void> => {
+  const trimmed = key.trim();
+  if (!trimmed) {
+    throw new ApiKeyError('missing', 'Enter an API key.');
+  }
+  await validateApiKey(trimmed);
+  writeStoredKey(passphrase ? await encryptKey(trimmed, passphrase) : { type: 'plain', key: trimmed });
+  unlockedKey = trimmed;
+  notify();
+};
+
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+  const stored = readStoredKey();
+  if (stored?.type !== 'encrypted') return;
+  try {
+    const cipherKey = await deriveKey(passphrase, fromBase64(stored.salt));
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, cipherKey, fromBase64(stored.data));
+    unlockedKey = new TextDecoder().decode(data);
+  } catch (error) {
+    throw new ApiKeyError('locked', 'That passphrase does not unlock the saved key.', { cause: error });
+  }
+  notify();
+};
+
+export const clearApiKey = () => {
+  writeStoredKey(null);
+  unlockedKey = null;
+  notify();
+};
+
+export const subscribeToApiKey = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
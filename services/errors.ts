@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed failures emitted by the generation service. Providers translate their
+// backend-specific errors into these so the UI can react to the kind of failure
+// rather than to the wording of a message. `retryable` marks transient errors
+// that the service retries automatically.
+
+export class GenerationError extends Error {
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GenerationError';
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(public readonly reason: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageReturnedError extends GenerationError {
+  constructor(message: string, public readonly textFeedback?: string, public readonly finishReason?: string) {
+    super(message);
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class UnsupportedMimeError extends GenerationError {
+  constructor(public readonly mimeType: string | undefined, options?: { cause?: unknown }) {
+    super(`Unsupported MIME type: ${mimeType ?? 'unknown'}`, options);
+    this.name = 'UnsupportedMimeError';
+  }
+}
+
+export class RateLimitedError extends GenerationError {
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  readonly retryable = true;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  readonly retryable = true;
+
+  constructor(public readonly timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export type PromptRejectionReason = 'empty' | 'too-long' | 'denied';
+
+// User text that was refused before any request was made (see ./promptSafety).
+export class PromptRejectedError extends GenerationError {
+  constructor(public readonly field: string, public readonly reason: PromptRejectionReason, message: string) {
+    super(message);
+    this.name = 'PromptRejectedError';
+  }
+}
+
+export type ApiKeyProblem = 'missing' | 'locked' | 'invalid';
+
+// The backend cannot be called with the key configured on this device (see ./apiKeyStore).
+export class ApiKeyError extends GenerationError {
+  constructor(public readonly problem: ApiKeyProblem, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof GenerationError && error.retryable;
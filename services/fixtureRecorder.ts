@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import type { GenerationOperation } from "./imageProvider";
+import type { GenerateContentFn } from "./providers/geminiProvider";
+
+// Captures the raw generateContent exchanges of a session as a fixture file, so they
+// can be served back by the replay provider (./providers/replayProvider.ts) without
+// network access. Requests are matched by a hash of what was sent. The seed is left
+// out because multi-candidate requests pick a random one, and the model name so a
+// recording made against any backend can be replayed.
+
+export interface FixtureError {
+  name: string;
+  message: string;
+  status?: number;
+}
+
+export interface FixtureExchange {
+  hash: string;
+  operation: GenerationOperation;
+  request: Omit<GenerateContentParameters, 'config'> & { config?: Record<string, unknown> };
+  response?: Record<string, unknown>;
+  error?: FixtureError;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  exchanges: FixtureExchange[];
+}
+
+export interface FixtureRecordingState {
+  recording: boolean;
+  exchanges: number;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Drops what cannot be serialized (the abort signal) and what changes between runs (the seed).
+const toFixtureRequest = ({ config, ...params }: GenerateContentParameters): FixtureExchange['request'] => {
+  if (!config) return params;
+  const { abortSignal, seed, ...rest } = config;
+  return { ...params, config: rest as Record<string, unknown> };
+};
+
+export const hashFixtureRequest = async (params: GenerateContentParameters): Promise<string> => {
+  const { model, ...request } = toFixtureRequest(params);
+  const bytes = new TextEncoder().encode(JSON.stringify(request));
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+const toFixtureError = (error: unknown): FixtureError => ({
+  name: error instanceof Error ? error.name : 'Error',
+  message: error instanceof Error ? error.message : String(error),
+  status: error instanceof ApiError ? error.status : undefined,
+});
+
+// Rebuilds an error of the same shape the transport threw, so the provider classifies it identically.
+export const fromFixtureError = ({ name, message, status }: FixtureError): Error => {
+  if (status !== undefined) return new ApiError({ status, message });
+  if (name === 'TypeError') return new TypeError(message);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+export const fromFixtureResponse = (response: Record<string, unknown>): GenerateContentResponse =>
+  Object.assign(new GenerateContentResponse(), response);
+
+let recorded: FixtureExchange[] | null = null;
+let state: FixtureRecordingState = { recording: false, exchanges: 0 };
+const listeners = new Set<() => void>();
+
+const publish = () => {
+  state = { recording: recorded !== null, exchanges: recorded?.length ?? 0 };
+  listeners.forEach(listener => listener());
+};
+
+export const startFixtureRecording = () => {
+  recorded = [];
+  publish();
+};
+
+// Stops recording and returns everything captured since it started.
+export const stopFixtureRecording = (): FixtureFile => {
+  const exchanges = recorded ?? [];
+  recorded = null;
+  publish();
+  return { version: 1, recordedAt: new Date().toISOString(), exchanges };
+};
+
+export const getFixtureRecordingState = (): FixtureRecordingState => state;
+
+export const subscribeToFixtureRecording = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Wraps a transport so that, while recording, every exchange (including failures) is captured.
+export const withFixtureRecording = (send: GenerateContentFn): GenerateContentFn => async (params, operation) => {
+  if (!recorded) return send(params, operation);
+  const target = recorded;
+  const exchange: FixtureExchange = { hash: await hashFixtureRequest(params), operation, request: toFixtureRequest(params) };
+  try {
+    const response = await send(params, operation);
+    exchange.response = JSON.parse(JSON.stringify(response));
+    return response;
+  } catch (error) {
+    // Cancelled requests say nothing about the backend and would only confuse a replay.
+    if (params.config?.abortSignal?.aborted) throw error;
+    exchange.error = toFixtureError(error);
+    throw error;
+  } finally {
+    if (exchange.response || exchange.error) {
+      target.push(exchange);
+      if (target === recorded) publish();
+    }
+  }
+};
+
+export const parseFixtureFile = (json: string): FixtureFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The fixture file is not valid JSON.');
+  }
+  const file = parsed as Partial<FixtureFile> | null;
+  if (!file || file.version !== 1 || !Array.isArray(file.exchanges)) {
+    throw new Error('The fixture file must have the form { "version": 1, "exchanges": [...] }.');
+  }
+  for (const exchange of file.exchanges) {
+    if (typeof exchange?.hash !== 'string' || (!exchange.response && !exchange.error)) {
+      throw new Error('Every fixture exchange needs a request hash and a response or an error.');
+    }
+  }
+  return file as FixtureFile;
+};
@@ -3,247 +3,174 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-
-const fileToPart = async (file: File) => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
+// Entry point used by the UI for every generation. The actual work is delegated to
+// whichever ImageGenerationProvider is active, so handlers never depend on a backend.
+// Every call takes an optional AbortSignal and rejects with an AbortError when cancelled.
+// Failures are typed (see ./errors); transient ones are retried with backoff before surfacing.
+// Try-on, accessory, pose and background results are cached (see ./resultCache) so repeats are free.
+// Input images are normalized (see ./imagePreprocessing) before they reach a provider.
+// Results carry the prompt template version they were generated with (see ./promptRegistry).
+// User-written text is sanitized and checked (see ./promptSafety) before it is used anywhere.
+// Try-ons, poses and background changes request as many variants as the user asked for
+// (see ./generationOptions); the extra ones come back as `alternates`.
+// Results are checked against the requested aspect ratio (see ./resultValidation), and
+// flagged ones are never cached so that trying again produces a new image.
+// Mask edits are composited into the original (see ./maskCompositing), so only masked pixels change.
+// Area selection returns a mask snapped to black and white at the photo's size (see ./segmentation).
+import { getImageProvider, getImageProviderId, GenerationOperation, GenerationResult, ImageGenerationProvider } from "./imageProvider";
+import { withRetry } from "./retry";
+import { computeCacheKey, getCachedResult, putCachedResult } from "./resultCache";
+import { getPreprocessingOptions, preprocessDataUrl, preprocessFile } from "./imagePreprocessing";
+import { getPromptFingerprint } from "./promptRegistry";
+import { preparePromptInput } from "./promptSafety";
+import { getGenerationOptions, getOperationConfig } from "./generationOptions";
+import { recordTrace } from "./requestInspector";
+import { getFixtureRecordingState } from "./fixtureRecorder";
+import { getResultValidationOptions, isFlaggedResult, ResultExpectation, validateGenerationResult } from "./resultValidation";
+import { compositeMaskEditResult, mergeMasks } from "./maskCompositing";
+import { normalizeSegmentationMask, RelativePoint } from "./segmentation";
+import type { AnnotationRegion } from "../types";
+import "./providers";
+
+const listResultImages = (result: GenerationResult) => [result.imageUrl, ...(result.alternates ?? [])];
+
+type ProviderCall = (provider: ImageGenerationProvider, signal: AbortSignal) => Promise<GenerationResult>;
+
+// `prepare` preprocesses the inputs once and returns the provider call, which is retried on transient failures.
+// With an expectation, the result is then checked and conformed to it.
+const runWithRetry = async (prepare: () => Promise<ProviderCall>, signal?: AbortSignal, expectation?: ResultExpectation): Promise<GenerationResult> => {
+    const provider = getImageProvider();
+    const call = await prepare();
+    signal?.throwIfAborted();
+    const result = await withRetry(attemptSignal => call(provider, attemptSignal), {
+        signal,
+        onRetry: (error, attempt, delayMs) => console.warn(`Generation attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms`, error),
     });
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+    return expectation ? validateGenerationResult(result, expectation) : result;
 };
 
-const dataUrlToParts = (dataUrl: string) => {
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    return { mimeType: mimeMatch[1], data: arr[1] };
-}
-
-const dataUrlToPart = (dataUrl: string) => {
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
-}
-
-const handleApiResponse = (response: GenerateContentResponse): string => {
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        throw new Error(errorMessage);
+// Serves a previous result for identical inputs, otherwise generates and remembers it.
+const runCached = async (operation: GenerationOperation, inputs: (string | File)[], prepare: () => Promise<ProviderCall>, signal: AbortSignal | undefined, expectation: ResultExpectation): Promise<GenerationResult> => {
+    const key = await computeCacheKey([
+        getImageProviderId(), operation, JSON.stringify(getPreprocessingOptions()), getPromptFingerprint(),
+        JSON.stringify(getOperationConfig(operation)), JSON.stringify(getResultValidationOptions()), ...inputs,
+    ]);
+    // While fixtures are being recorded every request must reach the provider, or the recording would have gaps.
+    const cached = getFixtureRecordingState().recording ? null : await getCachedResult(key);
+    signal?.throwIfAborted();
+    if (cached) {
+        recordTrace({
+            providerId: getImageProviderId(),
+            operation,
+            inputs: [],
+            outputs: listResultImages(cached).map(value => ({ kind: 'image', value })),
+            finishReasons: [],
+            latencyMs: 0,
+            status: 'cached',
+        });
+        return cached;
     }
 
-    // Find the first image part in any candidate
-    for (const candidate of response.candidates ?? []) {
-        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
-        if (imagePart?.inlineData) {
-            const { mimeType, data } = imagePart.inlineData;
-            return `data:${mimeType};base64,${data}`;
-        }
+    const result = await runWithRetry(prepare, signal, expectation);
+    if (!isFlaggedResult(result)) {
+        void putCachedResult(key, operation, result);
     }
+    return result;
+};
 
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        throw new Error(errorMessage);
-    }
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
-    throw new Error(errorMessage);
+export const generateModelImage = async (userImage: File, customInstructions?: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const instructions = customInstructions?.trim() ? preparePromptInput('customInstructions', customInstructions) : undefined;
+    return runWithRetry(async () => {
+        const preparedImage = await preprocessFile(userImage);
+        return (provider, signal) => provider.modelFromPhoto({ userImage: preparedImage, customInstructions: instructions, signal });
+    }, signal);
 };
 
-// Fix: Per coding guidelines, initialize the GenAI client without a non-null assertion on the API key.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const model = 'gemini-2.5-flash-image';
+export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const { candidateCount } = getGenerationOptions();
+    return runCached('tryOn', [modelImageUrl, garmentImage, aspectRatio, String(candidateCount)], async () => {
+        const [preparedModel, preparedGarment] = await Promise.all([preprocessDataUrl(modelImageUrl), preprocessFile(garmentImage)]);
+        return (provider, signal) => provider.tryOn({ modelImageUrl: preparedModel, garmentImage: preparedGarment, aspectRatio, candidateCount, signal });
+    }, signal, { aspectRatio, referenceImageUrl: modelImageUrl });
+};
 
-export const generateModelImage = async (userImage: File, customInstructions?: string): Promise<string> => {
-    const userImagePart = await fileToPart(userImage);
-    
-    let prompt = `You are an expert fashion photographer AI. Your primary goal is to transform the person in the provided image into an ultra-realistic, high-resolution photo based on the user's instructions, while preserving their core identity and features. The final image MUST be photorealistic with sharp details and professional lighting. Return ONLY the final image, with no artifacts.`;
+export const addAccessoryToImage = async (modelImageUrl: string, accessoryImage: File, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const { candidateCount } = getGenerationOptions();
+    return runCached('addAccessory', [modelImageUrl, accessoryImage, aspectRatio, String(candidateCount)], async () => {
+        const [preparedModel, preparedAccessory] = await Promise.all([preprocessDataUrl(modelImageUrl), preprocessFile(accessoryImage)]);
+        return (provider, signal) => provider.addAccessory({ modelImageUrl: preparedModel, accessoryImage: preparedAccessory, aspectRatio, candidateCount, signal });
+    }, signal, { aspectRatio, referenceImageUrl: modelImageUrl });
+};
 
-    if (customInstructions && customInstructions.trim() !== '') {
-        prompt += `\n\n**User Instructions:** "${customInstructions}"`;
-    } else {
-        prompt += `\n\n**Default Instructions (since none were provided):** Create a full-body fashion model photo suitable for a high-end e-commerce website. The background must be a clean, neutral studio backdrop (light gray, #f0f0f0). The person should have a neutral, professional model expression and be in a standard, relaxed standing model pose. Pay close attention to the textures of skin and fabric.`;
-    }
-    
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [userImagePart, { text: prompt }] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const pose = preparePromptInput('poseInstruction', poseInstruction);
+    const { candidateCount } = getGenerationOptions();
+    return runCached('poseVariation', [tryOnImageUrl, pose, aspectRatio, String(candidateCount)], async () => {
+        const preparedImage = await preprocessDataUrl(tryOnImageUrl);
+        return (provider, signal) => provider.poseVariation({ tryOnImageUrl: preparedImage, poseInstruction: pose, aspectRatio, candidateCount, signal });
+    }, signal, { aspectRatio, referenceImageUrl: tryOnImageUrl });
 };
 
-export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File, aspectRatio: string): Promise<string> => {
-    const modelImagePart = dataUrlToPart(modelImageUrl);
-    const garmentImagePart = await fileToPart(garmentImage);
-    const prompt = `You are an expert virtual try-on AI. Your task is to create a new, ultra-high-resolution, photorealistic image where the person from the 'model image' is wearing the clothing from the 'garment image'. The final output must be of professional photography quality.
-
-**Crucial Rules:**
-1.  **Complete Garment Replacement:** You MUST completely REMOVE and REPLACE the clothing item worn by the person in the 'model image' with the new garment. No part of the original clothing (e.g., collars, sleeves, patterns) should be visible in the final image.
-2.  **Preserve the Model:** The person's face, hair, body shape, and pose from the 'model image' MUST remain unchanged.
-3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
-4.  **Apply the Garment:** Realistically fit the new garment onto the person. It should adapt to their pose with natural folds, shadows, and lighting consistent with the original scene, resulting in a seamless, high-quality, and sharp final image.
-5.  **Aspect Ratio:** The final image must have a ${aspectRatio} aspect ratio.
-6.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [modelImagePart, garmentImagePart, { text: prompt }] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+export const changeBackgroundImage = async (baseImageUrl: string, backgroundPrompt: string, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const description = preparePromptInput('backgroundPrompt', backgroundPrompt);
+    const { candidateCount } = getGenerationOptions();
+    return runCached('background', [baseImageUrl, 'prompt', description, aspectRatio, String(candidateCount)], async () => {
+        const preparedImage = await preprocessDataUrl(baseImageUrl);
+        return (provider, signal) => provider.background({ baseImageUrl: preparedImage, background: { type: 'prompt', prompt: description }, aspectRatio, candidateCount, signal });
+    }, signal, { aspectRatio, referenceImageUrl: baseImageUrl });
 };
 
-export const addAccessoryToImage = async (modelImageUrl: string, accessoryImage: File, aspectRatio: string): Promise<string> => {
-    const modelImagePart = dataUrlToPart(modelImageUrl);
-    const accessoryImagePart = await fileToPart(accessoryImage);
-    const prompt = `You are an expert virtual try-on AI. Your task is to create a new, ultra-high-resolution, photorealistic image where the person from the 'model image' is wearing the accessory from the 'accessory image'. The result should be sharp and of professional photography quality.
-
-**Crucial Rules:**
-1.  **ADD, Don't Replace:** You MUST ADD the accessory to the person. DO NOT replace their existing clothing. The accessory should be placed logically (e.g., glasses on the face, hat on the head).
-2.  **Preserve Everything:** The person's face, hair, body shape, pose, and existing clothing from the 'model image' MUST remain unchanged, except where the accessory naturally covers them.
-3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
-4.  **Apply the Accessory:** Realistically fit the new accessory onto the person. It should adapt to their pose with natural shadows and lighting consistent with the original scene for a seamless integration.
-5.  **Aspect Ratio:** The final image must have a ${aspectRatio} aspect ratio.
-6.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [modelImagePart, accessoryImagePart, { text: prompt }] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+export const changeBackgroundImageWithImage = async (baseImageUrl: string, backgroundImageFile: File, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const { candidateCount } = getGenerationOptions();
+    return runCached('background', [baseImageUrl, 'image', backgroundImageFile, aspectRatio, String(candidateCount)], async () => {
+        const [preparedImage, preparedBackground] = await Promise.all([preprocessDataUrl(baseImageUrl), preprocessFile(backgroundImageFile)]);
+        return (provider, signal) => provider.background({ baseImageUrl: preparedImage, background: { type: 'image', image: preparedBackground }, aspectRatio, candidateCount, signal });
+    }, signal, { aspectRatio, referenceImageUrl: baseImageUrl });
 };
 
-export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string, aspectRatio: string): Promise<string> => {
-    const tryOnImagePart = dataUrlToPart(tryOnImageUrl);
-    const prompt = `You are an expert fashion photographer AI. Take this image and regenerate it from a different perspective. The person, clothing, and background style must remain identical. The new perspective should be: "${poseInstruction}". The final image must have a ${aspectRatio} aspect ratio. The output must be an ultra-high-resolution, photorealistic image with sharp details. Return ONLY the final image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [tryOnImagePart, { text: prompt }] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+export const changeImageAspectRatio = async (baseImageUrl: string, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    return runWithRetry(async () => {
+        const preparedImage = await preprocessDataUrl(baseImageUrl);
+        return (provider, signal) => provider.aspectRatio({ baseImageUrl: preparedImage, aspectRatio, signal });
+    }, signal, { aspectRatio, referenceImageUrl: baseImageUrl });
 };
 
-export const changeBackgroundImage = async (baseImageUrl: string, backgroundPrompt: string, aspectRatio: string): Promise<string> => {
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const prompt = `You are an expert photo editor AI. Your task is to perfectly replace the background of the provided image of a person with a new one.
-
-**New Background Description:**
-"${backgroundPrompt}"
-
-**Crucial Rules:**
-1.  **Isolate Subject:** Perfectly isolate the person, including their hair and clothing. Do not alter the person, their pose, or their clothes in any way.
-2.  **Replace Background:** Completely replace the original background with the new one described above.
-3.  **Maintain Realism:** Ensure lighting, shadows, and reflections on the person are consistent with the new background for an ultra-high-resolution, photorealistic, and seamless result.
-4.  **Aspect Ratio:** The final image must have a ${aspectRatio} aspect ratio.
-5.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [baseImagePart, { text: prompt }] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+// Runs a mask edit with an instruction that has already been sanitized and checked.
+// The raw output is composited before it is validated: padding or cropping it first would
+// shift it against the mask, and the checks should describe the image the user gets.
+const runMaskEdit = async (baseImageUrl: string, maskImageUrl: string, instruction: string, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    const result = await runWithRetry(async () => {
+        const [preparedImage, preparedMask] = await Promise.all([preprocessDataUrl(baseImageUrl), preprocessDataUrl(maskImageUrl)]);
+        return (provider, signal) => provider.maskEdit({ baseImageUrl: preparedImage, maskImageUrl: preparedMask, prompt: instruction, aspectRatio, signal });
+    }, signal);
+    signal?.throwIfAborted();
+    const composited = await compositeMaskEditResult(result, baseImageUrl, maskImageUrl);
+    return validateGenerationResult(composited, { aspectRatio, referenceImageUrl: baseImageUrl });
 };
 
-export const changeBackgroundImageWithImage = async (baseImageUrl: string, backgroundImageFile: File, aspectRatio: string): Promise<string> => {
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const backgroundImagePart = await fileToPart(backgroundImageFile);
-    const prompt = `You are an expert photo editor AI. You will be given a 'base image' containing a person and a 'background image'. Your task is to perfectly replace the background of the 'base image' with the 'background image'.
-
-**Crucial Rules:**
-1.  **Isolate Subject:** Perfectly isolate the person from the 'base image', including all details like hair and clothing. Do not alter the person, their pose, or their clothes in any way.
-2.  **Replace Background:** Completely replace the original background with the provided 'background image'.
-3.  **Maintain Realism:** Ensure lighting, shadows, and reflections on the person are consistent with the new background for an ultra-high-resolution, photorealistic, and perfectly seamless result.
-4.  **Aspect Ratio:** The final image must have a ${aspectRatio} aspect ratio.
-5.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [
-            { text: "This is the base image:" },
-            baseImagePart,
-            { text: "This is the background image:" },
-            backgroundImagePart,
-            { text: prompt },
-        ] },
-        config: {
-            // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+export const editImageWithMask = async (baseImageUrl: string, maskImageUrl: string, userPrompt: string, aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    return runMaskEdit(baseImageUrl, maskImageUrl, preparePromptInput('maskEditInstruction', userPrompt), aspectRatio, signal);
 };
 
-export const changeImageAspectRatio = async (baseImageUrl: string, aspectRatio: string): Promise<string> => {
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const prompt = `You are an expert photo editor AI. Your task is to change the aspect ratio of this image to ${aspectRatio}.
-
-**Crucial Rules:**
-1.  **Intelligently Recompose:** Recompose the scene to fit the new aspect ratio. Do not simply crop or stretch. You may need to intelligently generate new background details.
-2.  **Preserve Subject:** The person, their pose, their clothing, and all their details must remain completely unchanged and prominent in the frame.
-3.  **Seamless Background:** If the background needs to be extended, do it seamlessly and photorealistically, matching the original style.
-4.  **Maintain Quality:** The final output must be an ultra-high-resolution, photorealistic image.
-5.  **Output:** Return ONLY the final, edited image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [baseImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
+// Edits several regions in one request: the masks are merged and each instruction is tied to where its region is.
+// Every region's prompt is checked against the limit on its own; the wrapper text around them is not counted.
+export const editImageWithRegions = async (baseImageUrl: string, regions: AnnotationRegion[], aspectRatio: string, signal?: AbortSignal): Promise<GenerationResult> => {
+    if (regions.length === 1) {
+        return editImageWithMask(baseImageUrl, regions[0].maskDataUrl, regions[0].prompt, aspectRatio, signal);
+    }
+    const steps = regions.map((region, i) => `${i + 1}) in the ${region.location} area: ${preparePromptInput('maskEditInstruction', region.prompt)}`);
+    const instruction = `Make ${regions.length} separate changes, each only within its own part of the white area. ${steps.join(' ')}`;
+    const mergedMask = await mergeMasks(regions.map(region => region.maskDataUrl));
+    signal?.throwIfAborted();
+    return runMaskEdit(baseImageUrl, mergedMask, instruction, aspectRatio, signal);
 };
 
-export const editImageWithMask = async (baseImageUrl: string, maskImageUrl: string, userPrompt: string, aspectRatio: string): Promise<string> => {
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const maskImagePart = dataUrlToPart(maskImageUrl);
-
-    const prompt = `You are an expert photo editor AI. You are given a 'base image', a 'mask image', and an 'instruction'. Your task is to apply the instruction ONLY to the white areas of the 'mask image' on the 'base image'. The rest of the image must remain untouched. The result must be photorealistic and seamless.
-
-Instruction: "${userPrompt}"
-
-Crucial Rules:
-1.  **Strict Masking:** Apply changes ONLY within the white areas of the mask. The black areas are protected and MUST NOT be changed.
-2.  **Preserve Unmasked Areas:** All parts of the 'base image' corresponding to black areas in the 'mask image' must be perfectly preserved.
-3.  **Seamless Integration:** The edited area must blend flawlessly with the rest of the image, matching lighting, texture, and shadows.
-4.  **Aspect Ratio:** The final image must have a ${aspectRatio} aspect ratio.
-5.  **Output:** Return ONLY the final, edited photorealistic image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [
-            { text: "This is the base image:" },
-            baseImagePart,
-            { text: "This is the mask image (edit areas are white):" },
-            maskImagePart,
-            { text: prompt },
-        ] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return handleApiResponse(response);
-};
\ No newline at end of file
+// Returns a black and white mask, the size of the image, of whatever was tapped at `point`.
+export const segmentImageAt = async (baseImageUrl: string, point: RelativePoint, signal?: AbortSignal): Promise<string> => {
+    const result = await runWithRetry(async () => {
+        const preparedImage = await preprocessDataUrl(baseImageUrl);
+        return (provider, signal) => provider.segment({ baseImageUrl: preparedImage, point, signal });
+    }, signal);
+    signal?.throwIfAborted();
+    return normalizeSegmentationMask(result.imageUrl, baseImageUrl);
+};
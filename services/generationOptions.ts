@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationOperation } from "./imageProvider";
+
+// User preferences that shape how generations are requested, saved on this device.
+
+// Generation settings for a single operation. Unset fields fall back to the provider's defaults.
+export interface OperationConfig {
+  /** Model name. Only providers that talk to Gemini directly honour it. */
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  /** Fixed seed for repeatable results; variants use seed, seed + 1, ... */
+  seed?: number;
+}
+
+export interface GenerationOptions {
+  /** Variants requested for try-ons, poses and background changes (1 = no picker). */
+  candidateCount: number;
+  operations: Partial<Record<GenerationOperation, OperationConfig>>;
+}
+
+export const MAX_CANDIDATE_COUNT = 4;
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+// Suggested in the settings panel; any other model name can be typed in.
+export const KNOWN_IMAGE_MODELS = ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'];
+
+const OPTIONS_STORAGE_KEY = 'my-fit-check-generation-options';
+const DEFAULT_OPTIONS: GenerationOptions = { candidateCount: 1, operations: {} };
+
+export const getGenerationOptions = (): GenerationOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_OPTIONS, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read generation options from localStorage", e);
+  }
+  return DEFAULT_OPTIONS;
+};
+
+export const setGenerationOptions = (options: Partial<GenerationOptions>) => {
+  const next = { ...getGenerationOptions(), ...options };
+  next.candidateCount = Math.min(MAX_CANDIDATE_COUNT, Math.max(1, Math.round(next.candidateCount)));
+  try {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error("Failed to save generation options to localStorage", e);
+  }
+};
+
+const clampOptional = (value: number | undefined, min: number, max: number): number | undefined =>
+  value === undefined || !Number.isFinite(value) ? undefined : Math.min(max, Math.max(min, value));
+
+// Drops empty fields and clamps the rest to the ranges the API accepts.
+const normalizeOperationConfig = ({ model, temperature, topP, seed }: OperationConfig): OperationConfig => {
+  const normalized: OperationConfig = {
+    model: model?.trim() || undefined,
+    temperature: clampOptional(temperature, 0, 2),
+    topP: clampOptional(topP, 0, 1),
+    seed: seed === undefined || !Number.isFinite(seed) ? undefined : Math.max(0, Math.round(seed)),
+  };
+  return Object.fromEntries(Object.entries(normalized).filter(([, value]) => value !== undefined));
+};
+
+export const getOperationConfig = (operation: GenerationOperation): OperationConfig =>
+  getGenerationOptions().operations[operation] ?? {};
+
+export const setOperationConfig = (operation: GenerationOperation, config: OperationConfig) => {
+  const { [operation]: _previous, ...operations } = getGenerationOptions().operations;
+  const normalized = normalizeOperationConfig(config);
+  setGenerationOptions({ operations: Object.keys(normalized).length > 0 ? { ...operations, [operation]: normalized } : operations });
+};
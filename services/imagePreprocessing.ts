@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UnsupportedMimeError } from './errors';
+
+// Normalizes every image before it is sent to a provider: applies EXIF
+// orientation, shrinks it to a maximum edge, converts formats the model does
+// not accept (AVIF, GIF, ...) and re-encodes user uploads so camera metadata
+// such as GPS position never leaves the device. Decoding is left to the
+// browser, so HEIC photos only work where it can read them (Safari); elsewhere
+// they are refused with UnsupportedMimeError before any request is made.
+
+export interface PreprocessingOptions {
+  /** Longest allowed edge in pixels; larger images are scaled down. */
+  maxEdge: number;
+  /** JPEG quality used for photos without transparency. */
+  jpegQuality: number;
+}
+
+export interface PreprocessingReport {
+  originalMimeType: string;
+  mimeType: string;
+  originalBytes: number;
+  bytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  transformed: boolean;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  report: PreprocessingReport;
+}
+
+const OPTIONS_STORAGE_KEY = 'my-fit-check-preprocessing';
+const DEFAULT_OPTIONS: PreprocessingOptions = { maxEdge: 2048, jpegQuality: 0.9 };
+export const MAX_EDGE_PRESETS = [1024, 1536, 2048, 3072];
+export const HEIC_MIME_TYPES = ['image/heic', 'image/heif'];
+const PASSTHROUGH_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Formats that may carry transparency are re-encoded as PNG, everything else as JPEG.
+const ALPHA_MIME_TYPES = ['image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+export const getPreprocessingOptions = (): PreprocessingOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_OPTIONS, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read preprocessing options from localStorage", e);
+  }
+  return DEFAULT_OPTIONS;
+};
+
+export const setPreprocessingOptions = (options: Partial<PreprocessingOptions>) => {
+  try {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify({ ...getPreprocessingOptions(), ...options }));
+  } catch (e) {
+    console.error("Failed to save preprocessing options to localStorage", e);
+  }
+};
+
+const listeners = new Set<(report: PreprocessingReport) => void>();
+let lastUploadReport: PreprocessingReport | null = null;
+
+export const subscribeToPreprocessing = (listener: (report: PreprocessingReport) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// What happened to the most recent upload in this session, shown in the settings.
+export const getLastUploadReport = (): PreprocessingReport | null => lastUploadReport;
+
+const dataUrlByteLength = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+export const dataUrlToFile = async (dataUrl: string, filename: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], filename, { type: blob.type });
+};
+
+// `source` is either an upload (File/Blob) or an image already held as a data URL.
+// Uploads are always re-encoded to drop their metadata; data URLs produced by the
+// model are only touched when they are too large or in an unsupported format.
+export const preprocessImage = async (source: Blob | string): Promise<PreprocessedImage> => {
+  const { maxEdge, jpegQuality } = getPreprocessingOptions();
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const originalMimeType = blob.type || 'application/octet-stream';
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch (e) {
+    throw new UnsupportedMimeError(originalMimeType, { cause: e });
+  }
+
+  const { width: originalWidth, height: originalHeight } = bitmap;
+  const scale = Math.min(1, maxEdge / Math.max(originalWidth, originalHeight));
+  const width = Math.round(originalWidth * scale);
+  const height = Math.round(originalHeight * scale);
+  const needsTransform = typeof source !== 'string' || scale < 1 || !PASSTHROUGH_MIME_TYPES.includes(originalMimeType);
+
+  let dataUrl: string;
+  if (needsTransform) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      throw new Error('Could not get canvas context.');
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    const mimeType = ALPHA_MIME_TYPES.includes(originalMimeType) ? 'image/png' : 'image/jpeg';
+    dataUrl = canvas.toDataURL(mimeType, jpegQuality);
+  } else {
+    dataUrl = source as string;
+  }
+  bitmap.close();
+
+  const report: PreprocessingReport = {
+    originalMimeType,
+    mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+    originalBytes: blob.size,
+    bytes: dataUrlByteLength(dataUrl),
+    originalWidth,
+    originalHeight,
+    width,
+    height,
+    transformed: needsTransform,
+  };
+  if (typeof source !== 'string') {
+    lastUploadReport = report;
+  }
+  listeners.forEach(listener => listener(report));
+  return { dataUrl, report };
+};
+
+export const preprocessFile = async (file: File): Promise<File> => {
+  const { dataUrl } = await preprocessImage(file);
+  const extension = dataUrl.startsWith('data:image/png') ? 'png' : 'jpg';
+  return dataUrlToFile(dataUrl, `${file.name.replace(/\.[^.]+$/, '') || 'image'}.${extension}`);
+};
+
+export const preprocessDataUrl = async (dataUrl: string): Promise<string> => {
+  return (await preprocessImage(dataUrl)).dataUrl;
+};
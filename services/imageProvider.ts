@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ResultCheck } from "./resultValidation";
+
+// The operations every image-generation backend must support. Requests use
+// data URLs for images that already live in the outfit history and `File`s for
+// images freshly picked by the user (garments, backgrounds, the initial photo).
+// Every request can be cancelled through its AbortSignal; providers must then
+// reject with an AbortError.
+
+export interface GenerationRequest {
+  signal?: AbortSignal;
+}
+
+// Operations whose result the user picks from several variants.
+export interface MultiCandidateRequest extends GenerationRequest {
+  /** How many variants to generate; defaults to 1. */
+  candidateCount?: number;
+}
+
+export interface ModelFromPhotoRequest extends GenerationRequest {
+  userImage: File;
+  customInstructions?: string;
+}
+
+export interface TryOnRequest extends MultiCandidateRequest {
+  modelImageUrl: string;
+  garmentImage: File;
+  aspectRatio: string;
+}
+
+export interface AccessoryRequest extends MultiCandidateRequest {
+  modelImageUrl: string;
+  accessoryImage: File;
+  aspectRatio: string;
+}
+
+export interface PoseVariationRequest extends MultiCandidateRequest {
+  tryOnImageUrl: string;
+  poseInstruction: string;
+  aspectRatio: string;
+}
+
+export type BackgroundSource =
+  | { type: 'prompt'; prompt: string }
+  | { type: 'image'; image: File };
+
+export interface BackgroundRequest extends MultiCandidateRequest {
+  baseImageUrl: string;
+  background: BackgroundSource;
+  aspectRatio: string;
+}
+
+export interface AspectRatioRequest extends GenerationRequest {
+  baseImageUrl: string;
+  aspectRatio: string;
+}
+
+export interface MaskEditRequest extends GenerationRequest {
+  baseImageUrl: string;
+  maskImageUrl: string;
+  prompt: string;
+  aspectRatio: string;
+}
+
+export interface SegmentRequest extends GenerationRequest {
+  baseImageUrl: string;
+  /** The tapped spot, relative to the image size (0 to 1 on both axes). */
+  point: { x: number; y: number };
+}
+
+// A generated image together with the prompt template (see ./promptRegistry) that
+// produced it. Providers that do not use the registry leave `promptTemplate` unset.
+// When several candidates were requested, the others are listed in `alternates`.
+// `checks` is filled in by the service facade (see ./resultValidation), not by providers.
+export interface GenerationResult {
+  imageUrl: string;
+  alternates?: string[];
+  promptTemplate?: { name: string; version: string };
+  checks?: ResultCheck[];
+}
+
+export interface ImageGenerationProvider {
+  id: string;
+  modelFromPhoto(request: ModelFromPhotoRequest): Promise<GenerationResult>;
+  tryOn(request: TryOnRequest): Promise<GenerationResult>;
+  addAccessory(request: AccessoryRequest): Promise<GenerationResult>;
+  poseVariation(request: PoseVariationRequest): Promise<GenerationResult>;
+  background(request: BackgroundRequest): Promise<GenerationResult>;
+  aspectRatio(request: AspectRatioRequest): Promise<GenerationResult>;
+  maskEdit(request: MaskEditRequest): Promise<GenerationResult>;
+  /** Returns a black and white mask of the garment, hair or background at the requested point. */
+  segment(request: SegmentRequest): Promise<GenerationResult>;
+}
+
+export type GenerationOperation = Exclude<keyof ImageGenerationProvider, 'id'>;
+
+export type ImageGenerationProviderFactory = () => ImageGenerationProvider;
+
+interface RegisteredProvider {
+  label: string;
+  create: ImageGenerationProviderFactory;
+}
+
+const PROVIDER_STORAGE_KEY = 'my-fit-check-image-provider';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const registry = new Map<string, RegisteredProvider>();
+let activeProvider: ImageGenerationProvider | null = null;
+
+export const registerImageProvider = (id: string, label: string, create: ImageGenerationProviderFactory) => {
+  registry.set(id, { label, create });
+  // Re-registering the active backend should take effect on the next call.
+  if (activeProvider?.id === id) {
+    activeProvider = null;
+  }
+};
+
+// A saved choice of a removed provider falls back like any unknown id (see getImageProviderId).
+export const unregisterImageProvider = (id: string) => {
+  registry.delete(id);
+  if (activeProvider?.id === id) {
+    activeProvider = null;
+  }
+};
+
+export const listImageProviders = (): { id: string; label: string }[] =>
+  Array.from(registry.entries()).map(([id, { label }]) => ({ id, label }));
+
+// The provider is chosen at runtime: a choice saved on this device wins over the
+// IMAGE_PROVIDER build variable, which wins over the Gemini default.
+export const getImageProviderId = (): string => {
+  let storedId: string | null = null;
+  try {
+    storedId = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to read the image provider from localStorage", e);
+  }
+  const candidates = [storedId, process.env.IMAGE_PROVIDER, DEFAULT_PROVIDER_ID];
+  return candidates.find((id): id is string => !!id && registry.has(id)) ?? DEFAULT_PROVIDER_ID;
+};
+
+export const setImageProviderId = (id: string) => {
+  if (!registry.has(id)) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (e) {
+    console.error("Failed to save the image provider to localStorage", e);
+  }
+  activeProvider = null;
+};
+
+export const getImageProvider = (): ImageGenerationProvider => {
+  const id = getImageProviderId();
+  if (!activeProvider || activeProvider.id !== id) {
+    const entry = registry.get(id);
+    if (!entry) {
+      throw new Error(`No image provider is registered under "${id}".`);
+    }
+    activeProvider = entry.create();
+  }
+  return activeProvider;
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationResult } from "./imageProvider";
+
+// Blends the result of a masked edit back into the original image. The model is
+// asked to leave the black part of the mask alone but returns a whole new image,
+// so unmasked regions drift slightly. Here the model output is only kept where
+// the mask is white, softened by a feather that runs inward from the mask edge;
+// every pixel outside the mask is copied unchanged from the original.
+
+export interface MaskCompositingOptions {
+  /** Width in pixels of the soft transition inside the mask edge; 0 keeps a hard edge. */
+  featherPx: number;
+}
+
+const OPTIONS_STORAGE_KEY = 'my-fit-check-mask-compositing';
+const DEFAULT_OPTIONS: MaskCompositingOptions = { featherPx: 8 };
+export const MAX_FEATHER_PX = 64;
+
+export const getMaskCompositingOptions = (): MaskCompositingOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_OPTIONS, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read mask compositing options from localStorage", e);
+  }
+  return DEFAULT_OPTIONS;
+};
+
+export const setMaskCompositingOptions = (options: Partial<MaskCompositingOptions>) => {
+  const merged = { ...getMaskCompositingOptions(), ...options };
+  merged.featherPx = Math.min(MAX_FEATHER_PX, Math.max(0, Math.round(merged.featherPx) || 0));
+  try {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(merged));
+  } catch (e) {
+    console.error("Failed to save mask compositing options to localStorage", e);
+  }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not decode an image for mask compositing.'));
+  image.src = src;
+});
+
+// Draws an image at the given size and returns its pixels. Smoothing is turned off
+// for the mask so that scaling it does not spread it into black areas.
+const readPixels = (image: HTMLImageElement, width: number, height: number, smoothing = true): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingEnabled = smoothing;
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// One pass of a box blur along rows (step 1) or columns (step width), using a running sum.
+const boxBlurPass = (source: Float32Array, target: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const [lines, length, lineStep, step] = horizontal ? [height, width, width, 1] : [width, height, 1, width];
+  const size = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStep;
+    // Edges are extended by repeating the outermost value.
+    const at = (i: number) => source[start + Math.min(length - 1, Math.max(0, i)) * step];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      target[start + i * step] = sum / size;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+// Weight of the edited image per pixel: 0 outside the mask, rising to 1 over `featherPx` inside it.
+// Grey mask pixels (soft edges drawn in the editor) scale the weight down further.
+const computeBlendWeights = (mask: ImageData, featherPx: number): Float32Array => {
+  const { width, height, data } = mask;
+  const coverage = new Float32Array(width * height);
+  const inside = new Float32Array(width * height);
+  for (let i = 0; i < inside.length; i++) {
+    coverage[i] = data[i * 4] / 255;
+    inside[i] = coverage[i] > 0 ? 1 : 0;
+  }
+  if (featherPx <= 0) return coverage;
+
+  // Three box blurs approximate a Gaussian spanning roughly `featherPx` on each side of the edge.
+  const radius = Math.max(1, Math.round(featherPx / 3));
+  const blurred = Float32Array.from(inside);
+  const scratch = new Float32Array(inside.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlurPass(blurred, scratch, width, height, radius, true);
+    boxBlurPass(scratch, blurred, width, height, radius, false);
+  }
+  // The blurred mask is about 0.5 on the edge; remapping 0.5..1 to 0..1 moves the whole ramp inside the mask.
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] *= inside[i] ? Math.min(1, Math.max(0, blurred[i] * 2 - 1)) : 0;
+  }
+  return coverage;
+};
+
+// Returns a PNG the size of the original, so the copied pixels are not re-encoded lossily.
+export const compositeMaskedEdit = async (baseImageUrl: string, editedImageUrl: string, maskImageUrl: string, options: MaskCompositingOptions = getMaskCompositingOptions()): Promise<string> => {
+  const [base, edited, mask] = await Promise.all([loadImage(baseImageUrl), loadImage(editedImageUrl), loadImage(maskImageUrl)]);
+  const { naturalWidth: width, naturalHeight: height } = base;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const output = readPixels(base, width, height);
+  const editedPixels = readPixels(edited, width, height).data;
+  const weights = computeBlendWeights(readPixels(mask, width, height, false), options.featherPx);
+
+  const { data } = output;
+  for (let i = 0; i < weights.length; i++) {
+    const weight = weights[i];
+    if (weight === 0) continue;
+    const offset = i * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      data[offset + channel] = Math.round(data[offset + channel] + (editedPixels[offset + channel] - data[offset + channel]) * weight);
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Composites every image of a mask edit result (alternates included).
+export const compositeMaskEditResult = async (result: GenerationResult, baseImageUrl: string, maskImageUrl: string): Promise<GenerationResult> => {
+  const options = getMaskCompositingOptions();
+  const [imageUrl, ...alternates] = await Promise.all(
+    [result.imageUrl, ...(result.alternates ?? [])].map(url => compositeMaskedEdit(baseImageUrl, url, maskImageUrl, options)),
+  );
+  return { ...result, imageUrl, alternates: result.alternates ? alternates : undefined };
+};
+
+// Union of several masks of the same size: a pixel is as selected as it is in the most selecting mask.
+export const mergeMasks = async (maskImageUrls: string[]): Promise<string> => {
+  const masks = await Promise.all(maskImageUrls.map(loadImage));
+  const canvas = document.createElement('canvas');
+  canvas.width = masks[0].naturalWidth;
+  canvas.height = masks[0].naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'lighten';
+  ctx.imageSmoothingEnabled = false;
+  masks.forEach(mask => ctx.drawImage(mask, 0, 0, canvas.width, canvas.height));
+  return canvas.toDataURL('image/png');
+};
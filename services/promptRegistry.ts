@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Every prompt sent to an image provider is a named, versioned template with
+// `{{variable}}` placeholders. The built-in defaults live here; a template can
+// be overridden on this device (from the settings screen or an imported JSON
+// file) without touching code. Each override carries its own version so a
+// generated image can always be traced back to the exact wording that made it.
+
+// The variables each template may reference.
+export interface PromptVariables {
+  modelFromPhoto: { customInstructions: string };
+  modelFromPhotoDefault: Record<string, never>;
+  tryOn: { aspectRatio: string };
+  addAccessory: { aspectRatio: string };
+  poseVariation: { poseInstruction: string; aspectRatio: string };
+  backgroundFromPrompt: { backgroundPrompt: string; aspectRatio: string };
+  backgroundFromImage: { aspectRatio: string };
+  aspectRatio: { aspectRatio: string };
+  maskEdit: { instruction: string; aspectRatio: string };
+  segment: { x: string; y: string };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate {
+  version: string;
+  template: string;
+}
+
+export interface PromptDefinition extends PromptTemplate {
+  name: PromptName;
+  label: string;
+  variables: string[];
+  isOverridden: boolean;
+}
+
+export interface RenderedPrompt {
+  name: PromptName;
+  version: string;
+  text: string;
+}
+
+export type PromptOverrides = Partial<Record<PromptName, PromptTemplate>>;
+
+interface DefaultPrompt extends PromptTemplate {
+  label: string;
+  variables: string[];
+}
+
+const OVERRIDES_STORAGE_KEY = 'my-fit-check-prompt-overrides';
+
+const DEFAULT_PROMPTS: Record<PromptName, DefaultPrompt> = {
+  modelFromPhoto: {
+    label: 'Model from photo (with instructions)',
+    version: '1',
+    variables: ['customInstructions'],
+    template: `You are an expert fashion photographer AI. Your primary goal is to transform the person in the provided image into an ultra-realistic, high-resolution photo based on the user's instructions, while preserving their core identity and features. The final image MUST be photorealistic with sharp details and professional lighting. Return ONLY the final image, with no artifacts.
+
+**User Instructions:** "{{customInstructions}}"`,
+  },
+  modelFromPhotoDefault: {
+    label: 'Model from photo (default)',
+    version: '1',
+    variables: [],
+    template: `You are an expert fashion photographer AI. Your primary goal is to transform the person in the provided image into an ultra-realistic, high-resolution photo based on the user's instructions, while preserving their core identity and features. The final image MUST be photorealistic with sharp details and professional lighting. Return ONLY the final image, with no artifacts.
+
+**Default Instructions (since none were provided):** Create a full-body fashion model photo suitable for a high-end e-commerce website. The background must be a clean, neutral studio backdrop (light gray, #f0f0f0). The person should have a neutral, professional model expression and be in a standard, relaxed standing model pose. Pay close attention to the textures of skin and fabric.`,
+  },
+  tryOn: {
+    label: 'Garment try-on',
+    version: '1',
+    variables: ['aspectRatio'],
+    template: `You are an expert virtual try-on AI. Your task is to create a new, ultra-high-resolution, photorealistic image where the person from the 'model image' is wearing the clothing from the 'garment image'. The final output must be of professional photography quality.
+
+**Crucial Rules:**
+1.  **Complete Garment Replacement:** You MUST completely REMOVE and REPLACE the clothing item worn by the person in the 'model image' with the new garment. No part of the original clothing (e.g., collars, sleeves, patterns) should be visible in the final image.
+2.  **Preserve the Model:** The person's face, hair, body shape, and pose from the 'model image' MUST remain unchanged.
+3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
+4.  **Apply the Garment:** Realistically fit the new garment onto the person. It should adapt to their pose with natural folds, shadows, and lighting consistent with the original scene, resulting in a seamless, high-quality, and sharp final image.
+5.  **Aspect Ratio:** The final image must have a {{aspectRatio}} aspect ratio.
+6.  **Output:** Return ONLY the final, edited image. Do not include any text.`,
+  },
+  addAccessory: {
+    label: 'Accessory try-on',
+    version: '1',
+    variables: ['aspectRatio'],
+    template: `You are an expert virtual try-on AI. Your task is to create a new, ultra-high-resolution, photorealistic image where the person from the 'model image' is wearing the accessory from the 'accessory image'. The result should be sharp and of professional photography quality.
+
+**Crucial Rules:**
+1.  **ADD, Don't Replace:** You MUST ADD the accessory to the person. DO NOT replace their existing clothing. The accessory should be placed logically (e.g., glasses on the face, hat on the head).
+2.  **Preserve Everything:** The person's face, hair, body shape, pose, and existing clothing from the 'model image' MUST remain unchanged, except where the accessory naturally covers them.
+3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
+4.  **Apply the Accessory:** Realistically fit the new accessory onto the person. It should adapt to their pose with natural shadows and lighting consistent with the original scene for a seamless integration.
+5.  **Aspect Ratio:** The final image must have a {{aspectRatio}} aspect ratio.
+6.  **Output:** Return ONLY the final, edited image. Do not include any text.`,
+  },
+  poseVariation: {
+    label: 'Pose variation',
+    version: '1',
+    variables: ['poseInstruction', 'aspectRatio'],
+    template: `You are an expert fashion photographer AI. Take this image and regenerate it from a different perspective. The person, clothing, and background style must remain identical. The new perspective should be: "{{poseInstruction}}". The final image must have a {{aspectRatio}} aspect ratio. The output must be an ultra-high-resolution, photorealistic image with sharp details. Return ONLY the final image.`,
+  },
+  backgroundFromPrompt: {
+    label: 'Background from description',
+    version: '1',
+    variables: ['backgroundPrompt', 'aspectRatio'],
+    template: `You are an expert photo editor AI. Your task is to perfectly replace the background of the provided image of a person with a new one.
+
+**New Background Description:**
+"{{backgroundPrompt}}"
+
+**Crucial Rules:**
+1.  **Isolate Subject:** Perfectly isolate the person, including their hair and clothing. Do not alter the person, their pose, or their clothes in any way.
+2.  **Replace Background:** Completely replace the original background with the new one described above.
+3.  **Maintain Realism:** Ensure lighting, shadows, and reflections on the person are consistent with the new background for an ultra-high-resolution, photorealistic, and seamless result.
+4.  **Aspect Ratio:** The final image must have a {{aspectRatio}} aspect ratio.
+5.  **Output:** Return ONLY the final, edited image. Do not include any text.`,
+  },
+  backgroundFromImage: {
+    label: 'Background from image',
+    version: '1',
+    variables: ['aspectRatio'],
+    template: `You are an expert photo editor AI. You will be given a 'base image' containing a person and a 'background image'. Your task is to perfectly replace the background of the 'base image' with the 'background image'.
+
+**Crucial Rules:**
+1.  **Isolate Subject:** Perfectly isolate the person from the 'base image', including all details like hair and clothing. Do not alter the person, their pose, or their clothes in any way.
+2.  **Replace Background:** Completely replace the original background with the provided 'background image'.
+3.  **Maintain Realism:** Ensure lighting, shadows, and reflections on the person are consistent with the new background for an ultra-high-resolution, photorealistic, and perfectly seamless result.
+4.  **Aspect Ratio:** The final image must have a {{aspectRatio}} aspect ratio.
+5.  **Output:** Return ONLY the final, edited image. Do not include any text.`,
+  },
+  aspectRatio: {
+    label: 'Aspect ratio change',
+    version: '1',
+    variables: ['aspectRatio'],
+    template: `You are an expert photo editor AI. Your task is to change the aspect ratio of this image to {{aspectRatio}}.
+
+**Crucial Rules:**
+1.  **Intelligently Recompose:** Recompose the scene to fit the new aspect ratio. Do not simply crop or stretch. You may need to intelligently generate new background details.
+2.  **Preserve Subject:** The person, their pose, their clothing, and all their details must remain completely unchanged and prominent in the frame.
+3.  **Seamless Background:** If the background needs to be extended, do it seamlessly and photorealistically, matching the original style.
+4.  **Maintain Quality:** The final output must be an ultra-high-resolution, photorealistic image.
+5.  **Output:** Return ONLY the final, edited image.`,
+  },
+  maskEdit: {
+    label: 'Masked edit',
+    version: '1',
+    variables: ['instruction', 'aspectRatio'],
+    template: `You are an expert photo editor AI. You are given a 'base image', a 'mask image', and an 'instruction'. Your task is to apply the instruction ONLY to the white areas of the 'mask image' on the 'base image'. The rest of the image must remain untouched. The result must be photorealistic and seamless.
+
+Instruction: "{{instruction}}"
+
+Crucial Rules:
+1.  **Strict Masking:** Apply changes ONLY within the white areas of the mask. The black areas are protected and MUST NOT be changed.
+2.  **Preserve Unmasked Areas:** All parts of the 'base image' corresponding to black areas in the 'mask image' must be perfectly preserved.
+3.  **Seamless Integration:** The edited area must blend flawlessly with the rest of the image, matching lighting, texture, and shadows.
+4.  **Aspect Ratio:** The final image must have a {{aspectRatio}} aspect ratio.
+5.  **Output:** Return ONLY the final, edited photorealistic image.`,
+  },
+  segment: {
+    label: 'Area selection',
+    version: '1',
+    variables: ['x', 'y'],
+    template: `You are an expert image segmentation AI. Your task is to create a segmentation mask for this photo of a person.
+
+Select the single item at the point {{x}}% from the left and {{y}}% from the top of the image. The item is whichever of these is at that point: a garment (for example a shirt, jacket, pants, skirt or shoes), an accessory, the hair, the skin of the person, or the background.
+
+**Crucial Rules:**
+1.  **Mask Colors:** The selected item must be pure white. Everything else must be pure black. Use no other colors and no gray.
+2.  **Whole Item:** Include all visible parts of the item, also where it is interrupted (for example both shoes, or a sleeve on the other side of the body), and nothing of the neighbouring items.
+3.  **Same Framing:** The mask must have exactly the same size and framing as the photo, so it can be laid over it.
+4.  **Output:** Return ONLY the mask image.`,
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isPromptName = (name: string): name is PromptName => Object.prototype.hasOwnProperty.call(DEFAULT_PROMPTS, name);
+
+export const getPromptOverrides = (): PromptOverrides => {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error("Failed to read prompt overrides from localStorage", e);
+  }
+  return {};
+};
+
+const saveOverrides = (overrides: PromptOverrides) => {
+  try {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.error("Failed to save prompt overrides to localStorage", e);
+  }
+};
+
+// Throws if the template is unusable, e.g. it references a variable the caller never provides.
+export const validatePromptTemplate = (name: PromptName, { version, template }: PromptTemplate) => {
+  if (!version.trim()) {
+    throw new Error(`The "${name}" template needs a version.`);
+  }
+  if (!template.trim()) {
+    throw new Error(`The "${name}" template is empty.`);
+  }
+  if (version === DEFAULT_PROMPTS[name].version && template !== DEFAULT_PROMPTS[name].template) {
+    throw new Error(`Version "${version}" is already used by the built-in "${name}" template. Choose a new version for your changes.`);
+  }
+  const allowed = DEFAULT_PROMPTS[name].variables;
+  for (const [, variable] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(variable)) {
+      throw new Error(`The "${name}" template uses an unknown variable {{${variable}}}. Available: ${allowed.map(v => `{{${v}}}`).join(', ') || 'none'}.`);
+    }
+  }
+};
+
+export const setPromptOverride = (name: PromptName, override: PromptTemplate) => {
+  validatePromptTemplate(name, override);
+  saveOverrides({ ...getPromptOverrides(), [name]: { version: override.version, template: override.template } });
+};
+
+export const resetPromptOverride = (name?: PromptName) => {
+  if (!name) {
+    saveOverrides({});
+    return;
+  }
+  const { [name]: _removed, ...rest } = getPromptOverrides();
+  saveOverrides(rest);
+};
+
+export const getPromptTemplate = (name: PromptName): PromptTemplate => {
+  return getPromptOverrides()[name] ?? DEFAULT_PROMPTS[name];
+};
+
+export const listPromptTemplates = (): PromptDefinition[] => {
+  const overrides = getPromptOverrides();
+  return (Object.keys(DEFAULT_PROMPTS) as PromptName[]).map(name => {
+    const { label, variables } = DEFAULT_PROMPTS[name];
+    const { version, template } = overrides[name] ?? DEFAULT_PROMPTS[name];
+    return { name, label, variables, version, template, isOverridden: !!overrides[name] };
+  });
+};
+
+export const getDefaultPromptTemplate = (name: PromptName): PromptTemplate => {
+  const { version, template } = DEFAULT_PROMPTS[name];
+  return { version, template };
+};
+
+export const renderPrompt = <N extends PromptName>(name: N, variables: PromptVariables[N]): RenderedPrompt => {
+  const { version, template } = getPromptTemplate(name);
+  const values = variables as Record<string, string>;
+  const text = template.replace(PLACEHOLDER_PATTERN, (placeholder, variable: string) => values[variable] ?? placeholder);
+  return { name, version, text };
+};
+
+// Identifies the active wording of every template, so cached results are not
+// served after a prompt has been edited.
+export const getPromptFingerprint = (): string => {
+  return JSON.stringify(Object.fromEntries(listPromptTemplates().map(({ name, version, template }) => [name, { version, template }])));
+};
+
+// Overrides are exchanged as `{ "templates": { "<name>": { "version": "...", "template": "..." } } }`.
+export const exportPromptOverrides = (): string => {
+  return JSON.stringify({ templates: getPromptOverrides() }, null, 2);
+};
+
+export const importPromptOverrides = (json: string): PromptName[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The prompt file is not valid JSON.');
+  }
+  const templates = (parsed as { templates?: unknown })?.templates;
+  if (!templates || typeof templates !== 'object') {
+    throw new Error('The prompt file must contain a "templates" object.');
+  }
+
+  const imported: PromptOverrides = {};
+  for (const [name, value] of Object.entries(templates)) {
+    if (!isPromptName(name)) {
+      throw new Error(`Unknown prompt template "${name}".`);
+    }
+    const { version, template } = (value ?? {}) as Partial<PromptTemplate>;
+    if (typeof version !== 'string' || typeof template !== 'string') {
+      throw new Error(`The "${name}" template needs a string "version" and "template".`);
+    }
+    validatePromptTemplate(name, { version, template });
+    imported[name] = { version, template };
+  }
+  saveOverrides({ ...getPromptOverrides(), ...imported });
+  return Object.keys(imported) as PromptName[];
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptRejectedError } from './errors';
+
+// User text is quoted inside our prompt templates. Before it is interpolated it
+// is flattened to a single line, stripped of the quote characters and markdown
+// markers the templates use to delimit their sections, and checked against a
+// length limit and a denylist. Anything refused surfaces as PromptRejectedError
+// before a request is made.
+//
+// Square brackets are deliberately left alone so the mock provider's
+// `[mock:<scenario>]` directive keeps working.
+
+export type PromptField = 'customInstructions' | 'poseInstruction' | 'backgroundPrompt' | 'maskEditInstruction' | 'maskEditRequest';
+
+export const PROMPT_INPUT_LIMITS: Record<PromptField, number> = {
+  customInstructions: 500,
+  poseInstruction: 200,
+  backgroundPrompt: 300,
+  maskEditInstruction: 500,
+  // A whole mask edit request as the proxy server receives it: several region
+  // instructions of up to 500 characters each, joined with their location text.
+  maskEditRequest: 3000,
+};
+
+const FIELD_LABELS: Record<PromptField, string> = {
+  customInstructions: 'instructions',
+  poseInstruction: 'pose description',
+  backgroundPrompt: 'background description',
+  maskEditInstruction: 'edit instruction',
+  maskEditRequest: 'edit instruction',
+};
+
+// Returns a reason to refuse the text, or nothing to let it through.
+export type PromptFilter = (text: string, field: PromptField) => string | null | undefined;
+
+export interface DenylistRule {
+  pattern: RegExp;
+  reason: string;
+}
+
+// Attempts to talk the model out of the surrounding instructions.
+const DEFAULT_DENYLIST: DenylistRule[] = [
+  {
+    pattern: /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|rules|prompt)\b/i,
+    reason: 'It tries to override the app\'s own instructions.',
+  },
+  {
+    pattern: /\bsystem\s+prompt\b/i,
+    reason: 'It refers to the app\'s own instructions.',
+  },
+];
+
+export const createDenylistFilter = (rules: DenylistRule[]): PromptFilter =>
+  text => rules.find(rule => rule.pattern.test(text))?.reason;
+
+const filters = new Set<PromptFilter>([createDenylistFilter(DEFAULT_DENYLIST)]);
+
+// Lets a deployment refuse additional prompts. Returns a function that removes the filter again.
+export const registerPromptFilter = (filter: PromptFilter) => {
+  filters.add(filter);
+  return () => { filters.delete(filter); };
+};
+
+export const sanitizePromptText = (text: string): string => {
+  return text
+    .normalize('NFKC')
+    // Control and invisible formatting characters, including line breaks.
+    .replace(/[\p{Cc}\p{Cf}]/gu, ' ')
+    // Double quotes would close the quoted block the text is placed in.
+    .replace(/["\u201C\u201D\u201E\u201F\u2033\u00AB\u00BB]/g, "'")
+    // Bold markers, headings and code fences mark sections of the templates.
+    .replace(/\*{2,}|#{1,6}(?=\s)|`{3,}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Sanitizes user text for `field` and throws PromptRejectedError if it is empty, too long or denied.
+export const preparePromptInput = (field: PromptField, text: string): string => {
+  const label = FIELD_LABELS[field];
+  const sanitized = sanitizePromptText(text);
+  if (!sanitized) {
+    throw new PromptRejectedError(field, 'empty', `Your ${label} is empty.`);
+  }
+  const limit = PROMPT_INPUT_LIMITS[field];
+  if (sanitized.length > limit) {
+    throw new PromptRejectedError(field, 'too-long', `Your ${label} is too long (${sanitized.length} characters). Please keep it under ${limit} characters.`);
+  }
+  for (const filter of filters) {
+    const reason = filter(sanitized, field);
+    if (reason) {
+      throw new PromptRejectedError(field, 'denied', `Your ${label} can't be used. ${reason}`);
+    }
+  }
+  return sanitized;
+};
@@ -0,0 +1,302 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Modality, Part } from "@google/genai";
+import type { GenerationOperation, GenerationResult, ImageGenerationProvider } from "../imageProvider";
+import { renderPrompt, RenderedPrompt } from "../promptRegistry";
+import { recordUsage } from "../usageLedger";
+import { recordTrace, TracePart } from "../requestInspector";
+import { withFixtureRecording } from "../fixtureRecorder";
+import { DEFAULT_IMAGE_MODEL, getOperationConfig } from "../generationOptions";
+import { ApiKeyError, GenerationError, NetworkError, NoImageReturnedError, RateLimitedError, SafetyBlockedError, UnsupportedMimeError } from "../errors";
+import { isAbortError, withAbort } from "../../lib/utils";
+
+// Encodes without FileReader so the provider also runs under Node (see server/).
+const fileToPart = async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { inlineData: { mimeType: file.type || 'application/octet-stream', data: btoa(binary) } };
+};
+
+const dataUrlToParts = (dataUrl: string) => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    return { mimeType: mimeMatch[1], data: arr[1] };
+}
+
+const dataUrlToPart = (dataUrl: string) => {
+    const { mimeType, data } = dataUrlToParts(dataUrl);
+    return { inlineData: { mimeType, data } };
+}
+
+// Finish reasons that mean the model refused on content grounds rather than failing to draw.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+// Returns every image in the response, or throws a typed error explaining why there is none.
+const handleApiResponse = (response: GenerateContentResponse): string[] => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        throw new SafetyBlockedError(blockReason, errorMessage);
+    }
+
+    const images = (response.candidates ?? [])
+        .flatMap(candidate => candidate.content?.parts ?? [])
+        .flatMap(part => part.inlineData ? [`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`] : []);
+    if (images.length > 0) {
+        return images;
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        if (SAFETY_FINISH_REASONS.has(finishReason)) {
+            throw new SafetyBlockedError(finishReason, errorMessage);
+        }
+        throw new NoImageReturnedError(errorMessage, undefined, finishReason);
+    }
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
+    throw new NoImageReturnedError(errorMessage, textFeedback);
+};
+
+// API errors carry a JSON body such as '{"error":{"code":429,"message":"...","details":[...]}}'.
+const parseApiErrorBody = (message: string): { code?: number; message?: string; details?: { retryDelay?: string }[] } | undefined => {
+    try {
+        return JSON.parse(message)?.error;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// Maps failures of the request itself (as opposed to unusable responses) onto the service's error types.
+const classifyRequestError = (error: unknown): unknown => {
+    if (error instanceof GenerationError || isAbortError(error)) return error;
+
+    const rawMessage = error instanceof Error ? error.message : String(error);
+    const body = parseApiErrorBody(rawMessage);
+    const message = body?.message ?? rawMessage;
+    const status = error instanceof ApiError ? error.status : body?.code;
+
+    if (message.includes('API key not valid') || ((status === 401 || status === 403) && message.includes('API key'))) {
+        return new ApiKeyError('invalid', 'Gemini rejected the saved API key. Enter a new one under Settings → API key.', { cause: error });
+    }
+    if (message.includes('Unsupported MIME type')) {
+        return new UnsupportedMimeError(message.split(': ')[1], { cause: error });
+    }
+    if (status === 429) {
+        const retryDelay = body?.details?.find(detail => detail.retryDelay)?.retryDelay;
+        const retryAfterMs = retryDelay ? parseFloat(retryDelay) * 1000 : undefined;
+        return new RateLimitedError('Too many requests were sent to the image service.', retryAfterMs, { cause: error });
+    }
+    if (status === 500 || status === 502 || status === 503 || status === 504) {
+        return new NetworkError(`The image service is temporarily unavailable (HTTP ${status}).`, { cause: error });
+    }
+    // fetch() rejects with a TypeError when the network is unreachable.
+    if (error instanceof TypeError) {
+        return new NetworkError('Could not reach the image service. Please check your connection.', { cause: error });
+    }
+    return error;
+};
+
+// Sends a single request to the model. Swapping this out (e.g. for the mock backend) keeps
+// prompt construction and response handling identical to the real Gemini client.
+export type GenerateContentFn = (params: GenerateContentParameters, operation: GenerationOperation) => Promise<GenerateContentResponse>;
+
+export interface GeminiProviderOptions {
+    id?: string;
+    /** The key itself, or a function that is asked for the current key on every request. */
+    apiKey?: string | (() => string);
+    /** Pins every operation to this model. When unset, the per-operation setting or the default model is used. */
+    model?: string;
+    generateContent?: GenerateContentFn;
+}
+
+// What a single request is sent with, resolved from the operation's settings.
+interface CallSettings {
+    model: string;
+    seed?: number;
+    temperature?: number;
+    topP?: number;
+}
+
+export const createGeminiProvider = ({ id = 'gemini', apiKey, model: fixedModel, generateContent }: GeminiProviderOptions = {}): ImageGenerationProvider => {
+    // The client is created on first use so that selecting another provider never requires a Gemini key,
+    // and again whenever the key changes.
+    let ai: GoogleGenAI | null = null;
+    let clientKey: string | undefined;
+    const send: GenerateContentFn = withFixtureRecording(generateContent ?? (async params => {
+        const key = typeof apiKey === 'function' ? apiKey() : apiKey;
+        if (!ai || key !== clientKey) {
+            // Fix: Per coding guidelines, initialize the GenAI client without a non-null assertion on the API key.
+            ai = new GoogleGenAI({ apiKey: key });
+            clientKey = key;
+        }
+        return ai.models.generateContent(params);
+    }));
+
+    const toTraceParts = (parts: Part[]): TracePart[] => parts.flatMap((part): TracePart[] => {
+        if (part.inlineData) return [{ kind: 'image', value: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }];
+        if (part.text) return [{ kind: 'text', value: part.text }];
+        return [];
+    });
+
+    // Every model call goes to the usage ledger and, with its full content, to the request inspector.
+    const recordCall = (operation: GenerationOperation, parts: Part[], { model, seed }: CallSettings, startedAt: number, response?: GenerateContentResponse, error?: unknown) => {
+        const latencyMs = Math.round(performance.now() - startedAt);
+        const usage = response?.usageMetadata;
+        const errorName = error === undefined ? undefined : error instanceof Error ? error.name : String(error);
+        recordUsage({
+            providerId: id,
+            operation,
+            model,
+            latencyMs,
+            inputImageBytes: parts.reduce((sum, part) => sum + Math.floor((part.inlineData?.data?.length ?? 0) * 3 / 4), 0),
+            promptTokens: usage?.promptTokenCount ?? 0,
+            outputTokens: usage?.candidatesTokenCount ?? 0,
+            totalTokens: usage?.totalTokenCount ?? 0,
+            success: error === undefined,
+            error: errorName,
+        });
+        recordTrace({
+            providerId: id,
+            operation,
+            model,
+            seed,
+            inputs: toTraceParts(parts),
+            outputs: toTraceParts((response?.candidates ?? []).flatMap(candidate => candidate.content?.parts ?? [])),
+            promptFeedback: response?.promptFeedback,
+            finishReasons: (response?.candidates ?? []).flatMap(candidate => candidate.finishReason ? [candidate.finishReason] : []),
+            latencyMs,
+            status: error === undefined ? 'success' : 'error',
+            error: error === undefined ? undefined : `${errorName}: ${error instanceof Error ? error.message : String(error)}`,
+        });
+    };
+
+    const requestImages = async (operation: GenerationOperation, parts: Part[], settings: CallSettings, signal?: AbortSignal): Promise<string[]> => {
+        const { model, seed, temperature, topP } = settings;
+        const startedAt = performance.now();
+        let response: GenerateContentResponse | undefined;
+        try {
+            response = await withAbort(send({
+                model,
+                contents: { parts },
+                config: {
+                    // Fix: For image generation/editing, `responseModalities` must be an array containing a single `Modality.IMAGE` element.
+                    responseModalities: [Modality.IMAGE],
+                    seed,
+                    temperature,
+                    topP,
+                    abortSignal: signal,
+                },
+            }, operation), signal);
+            const images = handleApiResponse(response);
+            recordCall(operation, parts, settings, startedAt, response);
+            return images;
+        } catch (error) {
+            // Errors raised by handleApiResponse are already typed and pass through unchanged.
+            const classified = classifyRequestError(error);
+            recordCall(operation, parts, settings, startedAt, response, classified);
+            throw classified;
+        }
+    };
+
+    // The image model answers with a single image per request, so several candidates are
+    // requested in parallel with distinct seeds. Candidates that fail are dropped as long
+    // as at least one succeeds.
+    const generateImage = async (operation: GenerationOperation, parts: Part[], prompt: RenderedPrompt, signal?: AbortSignal, candidateCount = 1): Promise<GenerationResult> => {
+        signal?.throwIfAborted();
+        const requestParts = [...parts, { text: prompt.text }];
+        const { model, seed, temperature, topP } = getOperationConfig(operation);
+        const baseSeed = seed ?? (candidateCount > 1 ? Math.floor(Math.random() * 1_000_000) : undefined);
+        const settings: CallSettings = { model: fixedModel ?? model ?? DEFAULT_IMAGE_MODEL, temperature, topP };
+        const settled = await Promise.allSettled(Array.from({ length: candidateCount }, (_, i) =>
+            requestImages(operation, requestParts, { ...settings, seed: baseSeed === undefined ? undefined : baseSeed + i }, signal)
+        ));
+        const images = settled.flatMap(outcome => outcome.status === 'fulfilled' ? outcome.value : []).slice(0, candidateCount);
+        if (images.length === 0) {
+            throw (settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'))?.reason;
+        }
+        signal?.throwIfAborted();
+        const [imageUrl, ...alternates] = images;
+        return {
+            imageUrl,
+            alternates: alternates.length > 0 ? alternates : undefined,
+            promptTemplate: { name: prompt.name, version: prompt.version },
+        };
+    };
+
+    return {
+        id,
+
+        async modelFromPhoto({ userImage, customInstructions, signal }) {
+            const userImagePart = await fileToPart(userImage);
+            const prompt = customInstructions && customInstructions.trim() !== ''
+                ? renderPrompt('modelFromPhoto', { customInstructions })
+                : renderPrompt('modelFromPhotoDefault', {});
+            return generateImage('modelFromPhoto', [userImagePart], prompt, signal);
+        },
+
+        async tryOn({ modelImageUrl, garmentImage, aspectRatio, candidateCount, signal }) {
+            const modelImagePart = dataUrlToPart(modelImageUrl);
+            const garmentImagePart = await fileToPart(garmentImage);
+            return generateImage('tryOn', [modelImagePart, garmentImagePart], renderPrompt('tryOn', { aspectRatio }), signal, candidateCount);
+        },
+
+        async addAccessory({ modelImageUrl, accessoryImage, aspectRatio, candidateCount, signal }) {
+            const modelImagePart = dataUrlToPart(modelImageUrl);
+            const accessoryImagePart = await fileToPart(accessoryImage);
+            return generateImage('addAccessory', [modelImagePart, accessoryImagePart], renderPrompt('addAccessory', { aspectRatio }), signal, candidateCount);
+        },
+
+        async poseVariation({ tryOnImageUrl, poseInstruction, aspectRatio, candidateCount, signal }) {
+            const tryOnImagePart = dataUrlToPart(tryOnImageUrl);
+            return generateImage('poseVariation', [tryOnImagePart], renderPrompt('poseVariation', { poseInstruction, aspectRatio }), signal, candidateCount);
+        },
+
+        async background({ baseImageUrl, background, aspectRatio, candidateCount, signal }) {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+
+            if (background.type === 'prompt') {
+                return generateImage('background', [baseImagePart], renderPrompt('backgroundFromPrompt', { backgroundPrompt: background.prompt, aspectRatio }), signal, candidateCount);
+            }
+
+            const backgroundImagePart = await fileToPart(background.image);
+            return generateImage('background', [
+                { text: "This is the base image:" },
+                baseImagePart,
+                { text: "This is the background image:" },
+                backgroundImagePart,
+            ], renderPrompt('backgroundFromImage', { aspectRatio }), signal, candidateCount);
+        },
+
+        async aspectRatio({ baseImageUrl, aspectRatio, signal }) {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+            return generateImage('aspectRatio', [baseImagePart], renderPrompt('aspectRatio', { aspectRatio }), signal);
+        },
+
+        async maskEdit({ baseImageUrl, maskImageUrl, prompt: instruction, aspectRatio, signal }) {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+            const maskImagePart = dataUrlToPart(maskImageUrl);
+            return generateImage('maskEdit', [
+                { text: "This is the base image:" },
+                baseImagePart,
+                { text: "This is the mask image (edit areas are white):" },
+                maskImagePart,
+            ], renderPrompt('maskEdit', { instruction, aspectRatio }), signal);
+        },
+
+        async segment({ baseImageUrl, point, signal }) {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+            const toPercent = (value: number) => String(Math.round(value * 100));
+            return generateImage('segment', [baseImagePart], renderPrompt('segment', { x: toPercent(point.x), y: toPercent(point.y) }), signal);
+        },
+    };
+};
@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { registerImageProvider } from '../imageProvider';
+import { getApiKey } from '../apiKeyStore';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+
+// Built-in backends. Additional providers (e.g. an in-house model) register themselves the same way.
+registerImageProvider('gemini', 'Google Gemini', () => createGeminiProvider({ apiKey: getApiKey }));
+registerImageProvider('mock', 'Offline mock', createMockProvider);
+registerImageProvider('proxy', 'Proxy server', () => createProxyProvider({ baseUrl: process.env.PROXY_URL || '/api' }));
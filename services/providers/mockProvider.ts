@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, BlockedReason, FinishReason, GenerateContentParameters, GenerateContentResponse, Part } from "@google/genai";
+import type { GenerationOperation, ImageGenerationProvider } from "../imageProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { segmentByColor } from "../segmentation";
+
+// An offline stand-in for Gemini. It receives exactly the requests the Gemini
+// provider would send and answers with synthetic responses, so the real
+// response handling (and every error path behind it) runs without a network.
+
+export type MockScenario =
+  | 'success'
+  | 'blocked'
+  | 'finish-reason'
+  | 'text-only'
+  | 'empty'
+  | 'unsupported-mime'
+  | 'rate-limited'
+  | 'network-error'
+  | 'error';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['success', 'blocked', 'finish-reason', 'text-only', 'empty', 'unsupported-mime', 'rate-limited', 'network-error', 'error'];
+
+const SCENARIO_STORAGE_KEY = 'my-fit-check-mock-scenario';
+const MOCK_LATENCY_MS = 600;
+// A prompt containing e.g. "[mock:blocked]" forces that scenario for a single request.
+const SCENARIO_DIRECTIVE = /\[mock:([a-z-]+)\]/;
+
+export const getMockScenario = (): MockScenario => {
+  try {
+    const stored = localStorage.getItem(SCENARIO_STORAGE_KEY);
+    if (stored && MOCK_SCENARIOS.includes(stored as MockScenario)) {
+      return stored as MockScenario;
+    }
+  } catch (e) {
+    console.error("Failed to read the mock scenario from localStorage", e);
+  }
+  return 'success';
+};
+
+export const setMockScenario = (scenario: MockScenario) => {
+  try {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, scenario);
+  } catch (e) {
+    console.error("Failed to save the mock scenario to localStorage", e);
+  }
+};
+
+// Small, stable string hash (FNV-1a) used to derive colours from prompts.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Mock provider could not decode an input image.'));
+  image.src = src;
+});
+
+const getPromptText = (parts: Part[]): string => parts.map(part => part.text ?? '').join('\n');
+
+// The user-facing part of a prompt is the first quoted string (pose, background, edit instruction).
+const summarizePrompt = (prompt: string): string => {
+  const quoted = prompt.match(/"([^"]+)"/);
+  const summary = quoted ? quoted[1] : '';
+  return summary.length > 60 ? `${summary.slice(0, 57)}...` : summary;
+};
+
+const parseAspectRatio = (prompt: string): number | null => {
+  const match = prompt.match(/(\d+):(\d+) aspect ratio|aspect ratio of this image to (\d+):(\d+)/);
+  if (!match) return null;
+  const width = Number(match[1] ?? match[3]);
+  const height = Number(match[2] ?? match[4]);
+  return width > 0 && height > 0 ? width / height : null;
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Composites the first input image (the model) with the second one (garment,
+// background or mask) and stamps the operation and prompt onto the result.
+const renderSyntheticImage = async (operation: GenerationOperation, parts: Part[], seed?: number): Promise<string> => {
+  const images = await Promise.all(
+    parts
+      .filter(part => part.inlineData?.data)
+      .map(part => loadImage(`data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}`))
+  );
+  const [base, overlay] = images;
+  const prompt = getPromptText(parts);
+  // Candidates of the same request differ only by seed, so it is mixed into the colour.
+  const hue = hashString(`${operation}:${prompt}:${seed ?? ''}`) % 360;
+
+  const width = base?.naturalWidth || 512;
+  const ratio = parseAspectRatio(prompt) ?? (base ? base.naturalWidth / base.naturalHeight : 2 / 3);
+  const height = Math.round(width / ratio);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Mock provider could not get a canvas context.');
+
+  ctx.fillStyle = `hsl(${hue}, 30%, 92%)`;
+  ctx.fillRect(0, 0, width, height);
+  if (base) drawContained(ctx, base, 0, 0, width, height);
+
+  if (overlay) {
+    const boxWidth = width * 0.45;
+    const boxHeight = height * 0.35;
+    const boxX = (width - boxWidth) / 2;
+    const boxY = height * 0.3;
+    ctx.globalAlpha = 0.85;
+    drawContained(ctx, overlay, boxX, boxY, boxWidth, boxHeight);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = `hsl(${hue}, 70%, 45%)`;
+    ctx.lineWidth = Math.max(2, width / 200);
+    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+  }
+
+  const fontSize = Math.max(12, Math.round(width / 28));
+  const bandHeight = fontSize * 3.2;
+  ctx.fillStyle = `hsla(${hue}, 70%, 25%, 0.8)`;
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+  ctx.fillStyle = 'white';
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillText(`MOCK · ${operation}${seed === undefined ? '' : ` · seed ${seed}`}`, fontSize * 0.6, height - bandHeight + fontSize * 1.3, width - fontSize * 1.2);
+  ctx.font = `${Math.round(fontSize * 0.8)}px sans-serif`;
+  ctx.fillText(summarizePrompt(prompt) || '(default prompt)', fontSize * 0.6, height - fontSize * 0.7, width - fontSize * 1.2);
+
+  return canvas.toDataURL('image/png');
+};
+
+// Area selection has no synthetic picture to show; a colour flood fill from the
+// requested point gives a usable mask instead.
+const renderHeuristicMask = async (parts: Part[]): Promise<string> => {
+  const imagePart = parts.find(part => part.inlineData?.data);
+  if (!imagePart) throw new Error('Mock provider received no image to segment.');
+  const image = await loadImage(`data:${imagePart.inlineData!.mimeType};base64,${imagePart.inlineData!.data}`);
+  const match = getPromptText(parts).match(/(\d+(?:\.\d+)?)% from the left and (\d+(?:\.\d+)?)% from the top/);
+  const point = match ? { x: Number(match[1]) / 100, y: Number(match[2]) / 100 } : { x: 0.5, y: 0.5 };
+  return segmentByColor(image, point);
+};
+
+const buildResponse = (fields: Partial<GenerateContentResponse>): GenerateContentResponse =>
+  Object.assign(new GenerateContentResponse(), fields);
+
+const mockGenerateContent = async (params: GenerateContentParameters, operation: GenerationOperation): Promise<GenerateContentResponse> => {
+  const contents = params.contents as { parts: Part[] };
+  const parts = contents.parts ?? [];
+  const prompt = getPromptText(parts);
+  const directive = prompt.match(SCENARIO_DIRECTIVE)?.[1] as MockScenario | undefined;
+  const scenario = directive && MOCK_SCENARIOS.includes(directive) ? directive : getMockScenario();
+
+  const signal = params.config?.abortSignal;
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    // The signal may outlive this call (retries share it), so the listener is removed once the delay is over.
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  switch (scenario) {
+    case 'blocked':
+      return buildResponse({
+        promptFeedback: { blockReason: BlockedReason.SAFETY, blockReasonMessage: 'Simulated by the mock provider.' },
+      });
+    case 'finish-reason':
+      return buildResponse({
+        candidates: [{ content: { role: 'model', parts: [] }, finishReason: FinishReason.IMAGE_SAFETY }],
+      });
+    case 'text-only':
+      return buildResponse({
+        candidates: [{ content: { role: 'model', parts: [{ text: `Mock provider declined to draw ${operation}.` }] }, finishReason: FinishReason.STOP }],
+      });
+    case 'empty':
+      return buildResponse({
+        candidates: [{ content: { role: 'model', parts: [] }, finishReason: FinishReason.STOP }],
+      });
+    case 'unsupported-mime':
+      // Mirrors the JSON error body the Gemini API returns for unsupported uploads.
+      throw new Error(JSON.stringify({ error: { code: 400, message: 'Unsupported MIME type: image/heic', status: 'INVALID_ARGUMENT' } }));
+    case 'rate-limited':
+      throw new ApiError({
+        status: 429,
+        message: JSON.stringify({ error: { code: 429, message: 'Resource has been exhausted (mock).', status: 'RESOURCE_EXHAUSTED', details: [{ retryDelay: '1s' }] } }),
+      });
+    case 'network-error':
+      throw new TypeError('Failed to fetch');
+    case 'error':
+      throw new Error('Mock provider simulated an unexpected failure.');
+    case 'success':
+    default: {
+      const dataUrl = operation === 'segment'
+        ? await renderHeuristicMask(parts)
+        : await renderSyntheticImage(operation, parts, params.config?.seed);
+      const [header, data] = dataUrl.split(',');
+      const mimeType = header.slice('data:'.length, header.indexOf(';'));
+      // Token counts roughly follow Gemini's accounting (258 tokens per input image, 1290 per output image).
+      const imageCount = parts.filter(part => part.inlineData).length;
+      const promptTokenCount = imageCount * 258 + Math.ceil(prompt.length / 4);
+      return buildResponse({
+        candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType, data } }] }, finishReason: FinishReason.STOP }],
+        usageMetadata: { promptTokenCount, candidatesTokenCount: 1290, totalTokenCount: promptTokenCount + 1290 },
+      });
+    }
+  }
+};
+
+export const createMockProvider = (): ImageGenerationProvider =>
+  createGeminiProvider({ id: 'mock', model: 'mock-image', generateContent: mockGenerateContent });
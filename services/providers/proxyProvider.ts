@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationOperation, GenerationResult, ImageGenerationProvider } from "../imageProvider";
+import { ErrorBody, fromErrorBody, ResultBody } from "../proxyProtocol";
+import { NetworkError } from "../errors";
+import { recordTrace, TracePart } from "../requestInspector";
+import { recordUsage } from "../usageLedger";
+import { isAbortError } from "../../lib/utils";
+
+// Client for the proxy server in server/. Prompts are built and the API key is
+// held on the server; the app only uploads the images and the user's text.
+// The server reports the usage of its model calls with each result, and it is
+// recorded in this browser's ledger as if the calls had been made here. Failed
+// requests are recorded without token counts. Prompt overrides and per-operation
+// model settings stay on this device: the server uses its own, and the settings
+// screens say so while this provider is active.
+
+export interface ProxyProviderOptions {
+  /** Base URL of the API, e.g. "/api" or "https://fitcheck.example.com/api". */
+  baseUrl: string;
+}
+
+type FormFields = Record<string, string | Blob | undefined>;
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.slice('data:'.length, header.indexOf(';'));
+  return new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: mimeType });
+};
+
+const toTraceInputs = (fields: FormFields): TracePart[] => Object.entries(fields).flatMap(([name, value]): TracePart[] => {
+  if (value === undefined) return [];
+  if (typeof value === 'string') return [{ kind: 'text', value: `${name}: ${value}` }];
+  return [{ kind: 'text', value: `${name}: ${value.type || 'file'}, ${Math.round(value.size / 1024)} KB` }];
+});
+
+export const createProxyProvider = ({ baseUrl }: ProxyProviderOptions): ImageGenerationProvider => {
+  const post = async (operation: GenerationOperation, fields: FormFields, signal?: AbortSignal): Promise<GenerationResult> => {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      if (value !== undefined) form.append(name, value);
+    }
+
+    const startedAt = performance.now();
+    const recordFailure = (error: Error) => recordUsage({
+      providerId: 'proxy',
+      operation,
+      model: 'unknown',
+      latencyMs: Math.round(performance.now() - startedAt),
+      inputImageBytes: Object.values(fields).reduce((sum, value) => sum + (value instanceof Blob ? value.size : 0), 0),
+      promptTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      success: false,
+      error: error.name,
+    });
+    const trace = (result?: GenerationResult, error?: unknown) => recordTrace({
+      providerId: 'proxy',
+      operation,
+      inputs: toTraceInputs(fields),
+      outputs: result ? [result.imageUrl, ...(result.alternates ?? [])].map(value => ({ kind: 'image', value })) : [],
+      finishReasons: [],
+      latencyMs: Math.round(performance.now() - startedAt),
+      status: error === undefined ? 'success' : 'error',
+      error: error === undefined ? undefined : `${error instanceof Error ? error.name : 'Error'}: ${error instanceof Error ? error.message : String(error)}`,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/${operation}`, {
+        method: 'POST',
+        body: form,
+        headers: { Accept: 'application/json' },
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const networkError = new NetworkError('Could not reach the proxy server. Please check your connection.', { cause: error });
+      trace(undefined, networkError);
+      recordFailure(networkError);
+      throw networkError;
+    }
+
+    if (!response.ok) {
+      const body: ErrorBody | null = await response.json().catch(() => null);
+      const error = body?.error
+        ? fromErrorBody(body)
+        : response.status >= 500
+          ? new NetworkError(`The proxy server is temporarily unavailable (HTTP ${response.status}).`)
+          : new Error(`The proxy server rejected the request (HTTP ${response.status}).`);
+      trace(undefined, error);
+      recordFailure(error);
+      throw error;
+    }
+
+    const { usage, ...result }: ResultBody = await response.json();
+    usage?.forEach(report => recordUsage({ ...report, providerId: 'proxy' }));
+    trace(result);
+    return result;
+  };
+
+  return {
+    id: 'proxy',
+
+    modelFromPhoto: ({ userImage, customInstructions, signal }) =>
+      post('modelFromPhoto', { userImage, customInstructions }, signal),
+
+    tryOn: ({ modelImageUrl, garmentImage, aspectRatio, candidateCount, signal }) =>
+      post('tryOn', { modelImage: dataUrlToBlob(modelImageUrl), garmentImage, aspectRatio, candidateCount: candidateCount?.toString() }, signal),
+
+    addAccessory: ({ modelImageUrl, accessoryImage, aspectRatio, candidateCount, signal }) =>
+      post('addAccessory', { modelImage: dataUrlToBlob(modelImageUrl), accessoryImage, aspectRatio, candidateCount: candidateCount?.toString() }, signal),
+
+    poseVariation: ({ tryOnImageUrl, poseInstruction, aspectRatio, candidateCount, signal }) =>
+      post('poseVariation', { tryOnImage: dataUrlToBlob(tryOnImageUrl), poseInstruction, aspectRatio, candidateCount: candidateCount?.toString() }, signal),
+
+    background: ({ baseImageUrl, background, aspectRatio, candidateCount, signal }) =>
+      post('background', {
+        baseImage: dataUrlToBlob(baseImageUrl),
+        backgroundPrompt: background.type === 'prompt' ? background.prompt : undefined,
+        backgroundImage: background.type === 'image' ? background.image : undefined,
+        aspectRatio,
+        candidateCount: candidateCount?.toString(),
+      }, signal),
+
+    aspectRatio: ({ baseImageUrl, aspectRatio, signal }) =>
+      post('aspectRatio', { baseImage: dataUrlToBlob(baseImageUrl), aspectRatio }, signal),
+
+    maskEdit: ({ baseImageUrl, maskImageUrl, prompt, aspectRatio, signal }) =>
+      post('maskEdit', { baseImage: dataUrlToBlob(baseImageUrl), maskImage: dataUrlToBlob(maskImageUrl), prompt, aspectRatio }, signal),
+
+    segment: ({ baseImageUrl, point, signal }) =>
+      post('segment', { baseImage: dataUrlToBlob(baseImageUrl), x: point.x.toString(), y: point.y.toString() }, signal),
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImageProviderId, ImageGenerationProvider, registerImageProvider, setImageProviderId, unregisterImageProvider } from "../imageProvider";
+import { FixtureExchange, FixtureFile, fromFixtureError, fromFixtureResponse, hashFixtureRequest } from "../fixtureRecorder";
+import { createGeminiProvider, GenerateContentFn } from "./geminiProvider";
+
+// Serves recorded generateContent exchanges (see ../fixtureRecorder.ts) instead of
+// calling the model. The Gemini provider still builds every request and handles
+// every response, so a replay exercises the same code paths as the recording.
+// When a request was recorded several times (variants, repeated poses) the
+// responses are served in recorded order, and the last one is repeated after that.
+
+const createReplayTransport = (fixtures: FixtureFile): GenerateContentFn => {
+  const byHash = new Map<string, FixtureExchange[]>();
+  for (const exchange of fixtures.exchanges) {
+    byHash.set(exchange.hash, [...(byHash.get(exchange.hash) ?? []), exchange]);
+  }
+  const served = new Map<string, number>();
+
+  return async (params, operation) => {
+    const hash = await hashFixtureRequest(params);
+    const matches = byHash.get(hash);
+    if (!matches) {
+      throw new Error(`No recorded fixture matches this ${operation} request (hash ${hash.slice(0, 12)}).`);
+    }
+    const index = served.get(hash) ?? 0;
+    served.set(hash, index + 1);
+    const exchange = matches[Math.min(index, matches.length - 1)];
+    if (exchange.error) {
+      throw fromFixtureError(exchange.error);
+    }
+    return fromFixtureResponse(exchange.response!);
+  };
+};
+
+export const createReplayProvider = (fixtures: FixtureFile): ImageGenerationProvider =>
+  createGeminiProvider({ id: 'replay', model: 'replay', generateContent: createReplayTransport(fixtures) });
+
+// The "replay" provider only exists while fixtures are loaded. Stopping the replay
+// removes it and switches back to the provider that was chosen before it started;
+// a saved choice of it falls back to the usual provider after a reload.
+let replacedProviderId: string | null = null;
+
+export const startFixtureReplay = (fixtures: FixtureFile) => {
+  if (getImageProviderId() !== 'replay') {
+    replacedProviderId = getImageProviderId();
+  }
+  registerImageProvider('replay', 'Recorded fixtures', () => createReplayProvider(fixtures));
+  setImageProviderId('replay');
+};
+
+export const stopFixtureReplay = () => {
+  unregisterImageProvider('replay');
+  if (replacedProviderId) {
+    setImageProviderId(replacedProviderId);
+    replacedProviderId = null;
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  ApiKeyError,
+  ApiKeyProblem,
+  GenerationError,
+  NetworkError,
+  NoImageReturnedError,
+  PromptRejectedError,
+  PromptRejectionReason,
+  RateLimitedError,
+  SafetyBlockedError,
+  TimeoutError,
+  UnsupportedMimeError,
+} from "./errors";
+import type { GenerationResult } from "./imageProvider";
+import type { UsageReport } from "./usageLedger";
+
+// Wire format shared by the proxy server (server/) and its client adapter
+// (./providers/proxyProvider.ts). Each operation is a multipart POST to
+// `<base>/<operation>`; the response is the GenerationResult as JSON, or the
+// first image itself when JSON is not accepted. Failures are sent as an
+// ErrorBody so the client can rebuild the same typed error.
+
+// A JSON result also lists the model calls the server made for it, so that the
+// browser's usage ledger and daily budget count them like direct calls.
+export interface ResultBody extends GenerationResult {
+  usage?: UsageReport[];
+}
+
+export interface ErrorBody {
+  error: {
+    type: string;
+    message: string;
+    reason?: string;
+    field?: string;
+    mimeType?: string;
+    retryAfterMs?: number;
+    textFeedback?: string;
+    finishReason?: string;
+    timeoutMs?: number;
+    problem?: ApiKeyProblem;
+  };
+}
+
+export const toErrorResponse = (error: unknown): { status: number; body: ErrorBody } => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SafetyBlockedError) {
+    return { status: 422, body: { error: { type: error.name, message, reason: error.reason } } };
+  }
+  if (error instanceof NoImageReturnedError) {
+    return { status: 422, body: { error: { type: error.name, message, textFeedback: error.textFeedback, finishReason: error.finishReason } } };
+  }
+  if (error instanceof UnsupportedMimeError) {
+    return { status: 415, body: { error: { type: error.name, message, mimeType: error.mimeType } } };
+  }
+  if (error instanceof PromptRejectedError) {
+    return { status: 400, body: { error: { type: error.name, message, field: error.field, reason: error.reason } } };
+  }
+  if (error instanceof RateLimitedError) {
+    return { status: 429, body: { error: { type: error.name, message, retryAfterMs: error.retryAfterMs } } };
+  }
+  if (error instanceof TimeoutError) {
+    return { status: 504, body: { error: { type: error.name, message, timeoutMs: error.timeoutMs } } };
+  }
+  if (error instanceof NetworkError) {
+    return { status: 502, body: { error: { type: error.name, message } } };
+  }
+  // A key problem on the server is the operator's to fix, not the user's.
+  if (error instanceof ApiKeyError) {
+    return { status: 500, body: { error: { type: error.name, message: 'The proxy server is not configured with a working Gemini API key.', problem: error.problem } } };
+  }
+  if (error instanceof GenerationError) {
+    return { status: 400, body: { error: { type: error.name, message } } };
+  }
+  return { status: 500, body: { error: { type: 'Error', message } } };
+};
+
+export const fromErrorBody = ({ error }: ErrorBody): Error => {
+  const { type, message } = error;
+  switch (type) {
+    case 'SafetyBlockedError':
+      return new SafetyBlockedError(error.reason ?? 'UNKNOWN', message);
+    case 'NoImageReturnedError':
+      return new NoImageReturnedError(message, error.textFeedback, error.finishReason);
+    case 'UnsupportedMimeError':
+      return new UnsupportedMimeError(error.mimeType);
+    case 'PromptRejectedError':
+      return new PromptRejectedError(error.field ?? 'prompt', (error.reason ?? 'denied') as PromptRejectionReason, message);
+    case 'RateLimitedError':
+      return new RateLimitedError(message, error.retryAfterMs);
+    case 'TimeoutError':
+      return new TimeoutError(error.timeoutMs ?? 0);
+    case 'NetworkError':
+      return new NetworkError(message);
+    case 'ApiKeyError':
+      return new ApiKeyError(error.problem ?? 'invalid', message);
+    default:
+      return type === 'Error' ? new Error(message) : new GenerationError(message);
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// In-memory trace of recent generation calls for the request inspector
+// (components/DebugModal.tsx). Unlike the usage ledger it keeps the full prompt,
+// the input images and the raw response details, so it only holds the latest
+// calls and is never persisted.
+
+export type TraceStatus = 'success' | 'error' | 'cached';
+
+export interface TracePart {
+  kind: 'text' | 'image';
+  /** The text itself, or the image as a data URL. */
+  value: string;
+}
+
+export interface RequestTrace {
+  id: string;
+  timestamp: number;
+  providerId: string;
+  operation: string;
+  model?: string;
+  seed?: number;
+  inputs: TracePart[];
+  outputs: TracePart[];
+  promptFeedback?: unknown;
+  finishReasons: string[];
+  latencyMs: number;
+  status: TraceStatus;
+  error?: string;
+}
+
+const MAX_TRACES = 30;
+
+let traces: RequestTrace[] = [];
+let nextId = 0;
+const listeners = new Set<() => void>();
+
+export const recordTrace = (trace: Omit<RequestTrace, 'id' | 'timestamp'>) => {
+  traces = [{ ...trace, id: `trace-${nextId++}`, timestamp: Date.now() }, ...traces].slice(0, MAX_TRACES);
+  listeners.forEach(listener => listener());
+};
+
+export const getTraces = (): RequestTrace[] => traces;
+
+export const clearTraces = () => {
+  traces = [];
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToTraces = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
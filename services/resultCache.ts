@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationResult } from './imageProvider';
+
+// Content-addressed store for generated images, kept in IndexedDB so it survives
+// reloads. Keys are SHA-256 hashes of everything that determines a result, so
+// asking for the same garment on the same base (or the same pose of the same
+// layer) is answered locally. Cache failures are logged and treated as misses.
+
+const DB_NAME = 'my-fit-check-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+const MAX_ENTRIES = 200;
+
+interface CachedResult {
+  key: string;
+  operation: string;
+  result: GenerationResult;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Hashes each input on its own, then hashes the list of digests, so inputs can
+// never run into each other (e.g. "ab" + "c" vs "a" + "bc").
+export const computeCacheKey = async (inputs: (string | File | undefined)[]): Promise<string> => {
+  const encoder = new TextEncoder();
+  const digests = await Promise.all(inputs.map(async input => {
+    const bytes = input instanceof File ? await input.arrayBuffer() : encoder.encode(input ?? '');
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+  }));
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(digests.join('|'))));
+};
+
+export const getCachedResult = async (key: string): Promise<GenerationResult | null> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry = await requestToPromise<CachedResult | undefined>(store.get(key));
+    return entry?.result ?? null;
+  } catch (e) {
+    console.error("Failed to read from the result cache", e);
+    return null;
+  }
+};
+
+export const putCachedResult = async (key: string, operation: string, result: GenerationResult): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put({ key, operation, result, createdAt: Date.now() } satisfies CachedResult));
+
+    // Evict the oldest entries once the cache grows past its limit.
+    const count = await requestToPromise(store.count());
+    if (count > MAX_ENTRIES) {
+      let excess = count - MAX_ENTRIES;
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess > 0) {
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        }
+      };
+    }
+  } catch (e) {
+    console.error("Failed to write to the result cache", e);
+  }
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  } catch (e) {
+    console.error("Failed to clear the result cache", e);
+  }
+};
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationResult } from "./imageProvider";
+
+// Checks generated images against what was asked for. The prompts request an
+// aspect ratio but the model does not always honour it, so each result is
+// measured, optionally padded or cropped to the requested ratio, and flagged
+// when its shape or resolution drifted far enough that the user should regenerate.
+
+export type ConformMode = 'off' | 'pad' | 'crop';
+
+export interface ResultValidationOptions {
+  /** What to do with a result whose aspect ratio is off by more than `ratioTolerance`. */
+  conform: ConformMode;
+  /** Relative ratio deviation accepted as is. */
+  ratioTolerance: number;
+  /** Relative ratio deviation (before conforming) that flags the result. */
+  flagRatioDrift: number;
+  /** Relative change in pixel count compared with the input image that flags the result. */
+  flagSizeDrift: number;
+}
+
+// What the caller asked for; the reference is the image the result was generated from.
+export interface ResultExpectation {
+  aspectRatio: string;
+  referenceImageUrl?: string;
+}
+
+export interface ResultCheck {
+  expectedAspectRatio: string;
+  /** Size of the image as the model returned it. */
+  width: number;
+  height: number;
+  ratioDrift: number;
+  sizeDrift?: number;
+  adjustment: 'none' | 'padded' | 'cropped';
+  flagged: boolean;
+  /** Human-readable reasons for the flag. */
+  issues: string[];
+}
+
+const OPTIONS_STORAGE_KEY = 'my-fit-check-result-validation';
+const DEFAULT_OPTIONS: ResultValidationOptions = { conform: 'pad', ratioTolerance: 0.02, flagRatioDrift: 0.08, flagSizeDrift: 0.5 };
+
+export const getResultValidationOptions = (): ResultValidationOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_OPTIONS, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read result validation options from localStorage", e);
+  }
+  return DEFAULT_OPTIONS;
+};
+
+export const setResultValidationOptions = (options: Partial<ResultValidationOptions>) => {
+  try {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify({ ...getResultValidationOptions(), ...options }));
+  } catch (e) {
+    console.error("Failed to save result validation options to localStorage", e);
+  }
+};
+
+const parseAspectRatio = (aspectRatio: string): number | null => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : null;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not decode a generated image for validation.'));
+  image.src = src;
+});
+
+// Average colour of the outermost pixels, used to fill padding so it blends with the backdrop.
+const sampleEdgeColor = (image: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  const { width, height } = canvas;
+  const strips = [ctx.getImageData(0, 0, width, 1), ctx.getImageData(0, height - 1, width, 1), ctx.getImageData(0, 0, 1, height), ctx.getImageData(width - 1, 0, 1, height)];
+  let r = 0, g = 0, b = 0, count = 0;
+  for (const { data } of strips) {
+    for (let i = 0; i < data.length; i += 4) {
+      r += data[i]; g += data[i + 1]; b += data[i + 2]; count++;
+    }
+  }
+  return `rgb(${Math.round(r / count)}, ${Math.round(g / count)}, ${Math.round(b / count)})`;
+};
+
+const conformImage = (image: HTMLImageElement, targetRatio: number, mode: 'pad' | 'crop', mimeType: string): string => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const isWider = width / height > targetRatio;
+  // Padding grows the short side to fit the ratio; cropping shrinks the long side.
+  const [canvasWidth, canvasHeight] = (isWider === (mode === 'pad'))
+    ? [width, Math.round(width / targetRatio)]
+    : [Math.round(height * targetRatio), height];
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const ctx = canvas.getContext('2d')!;
+  if (mode === 'pad') {
+    ctx.fillStyle = sampleEdgeColor(image);
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  }
+  ctx.drawImage(image, Math.round((canvasWidth - width) / 2), Math.round((canvasHeight - height) / 2));
+  return canvas.toDataURL(mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png', 0.92);
+};
+
+const describeRatio = (width: number, height: number) => (width / height).toFixed(2);
+
+export const checkResultImage = async (imageUrl: string, { aspectRatio, referenceImageUrl }: ResultExpectation): Promise<{ imageUrl: string; check: ResultCheck }> => {
+  const options = getResultValidationOptions();
+  const image = await loadImage(imageUrl);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const targetRatio = parseAspectRatio(aspectRatio);
+  const ratioDrift = targetRatio ? Math.abs(width / height / targetRatio - 1) : 0;
+  const issues: string[] = [];
+  if (ratioDrift > options.flagRatioDrift) {
+    issues.push(`The result is ${width}×${height} (${describeRatio(width, height)}:1) instead of ${aspectRatio}.`);
+  }
+
+  let sizeDrift: number | undefined;
+  if (referenceImageUrl) {
+    const reference = await loadImage(referenceImageUrl);
+    const referencePixels = reference.naturalWidth * reference.naturalHeight;
+    sizeDrift = Math.abs((width * height) / referencePixels - 1);
+    if (sizeDrift > options.flagSizeDrift) {
+      issues.push(`The resolution changed from ${reference.naturalWidth}×${reference.naturalHeight} to ${width}×${height}.`);
+    }
+  }
+
+  let adjustment: ResultCheck['adjustment'] = 'none';
+  let conformedUrl = imageUrl;
+  if (targetRatio && ratioDrift > options.ratioTolerance && options.conform !== 'off') {
+    const mimeType = imageUrl.slice('data:'.length, imageUrl.indexOf(';'));
+    conformedUrl = conformImage(image, targetRatio, options.conform, mimeType);
+    adjustment = options.conform === 'pad' ? 'padded' : 'cropped';
+  }
+
+  return {
+    imageUrl: conformedUrl,
+    check: { expectedAspectRatio: aspectRatio, width, height, ratioDrift, sizeDrift, adjustment, flagged: issues.length > 0, issues },
+  };
+};
+
+// Checks every image of a result (alternates included); `checks` follows the order imageUrl, ...alternates.
+export const validateGenerationResult = async (result: GenerationResult, expectation: ResultExpectation): Promise<GenerationResult> => {
+  const checked = await Promise.all([result.imageUrl, ...(result.alternates ?? [])].map(url => checkResultImage(url, expectation)));
+  const [primary, ...alternates] = checked;
+  return {
+    ...result,
+    imageUrl: primary.imageUrl,
+    alternates: result.alternates ? alternates.map(entry => entry.imageUrl) : undefined,
+    checks: checked.map(entry => entry.check),
+  };
+};
+
+export const isFlaggedResult = (result: GenerationResult): boolean => !!result.checks?.some(check => check.flagged);
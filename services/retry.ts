@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RateLimitedError, TimeoutError, isRetryableError } from './errors';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Additional attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Per-attempt limit; an attempt that runs longer fails with a TimeoutError. */
+  timeoutMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own AbortSignal, which fires when either the caller
+// cancels or the attempt exceeds its time limit.
+const runAttempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const timeoutError = new TimeoutError(timeoutMs);
+  const forwardAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(timeoutError), timeoutMs);
+
+  try {
+    return await task(controller.signal);
+  } catch (error) {
+    if (controller.signal.reason === timeoutError) {
+      throw timeoutError;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// Retries transient failures (rate limits, network errors, timeouts) with
+// exponential backoff and full jitter. Anything else is rethrown immediately.
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, retries = 3, baseDelayMs = 1000, maxDelayMs = 15000, timeoutMs = 120000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error) || signal?.aborted) {
+        throw error;
+      }
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = error instanceof RateLimitedError && error.retryAfterMs !== undefined
+        ? Math.max(backoff, error.retryAfterMs)
+        : backoff;
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
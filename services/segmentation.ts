@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Turns a tap on the photo into a selection mask. The model is asked for a black
+// and white mask of whatever is at the tapped spot; what comes back is snapped to
+// pure black and white at the photo's own size so it can seed a mask in the edit
+// dialog. `segmentByColor` is a local stand-in that grows the selection from the
+// tapped pixel through similar colours; the mock provider answers with it.
+
+export interface RelativePoint {
+  /** 0 is the left edge, 1 the right edge. */
+  x: number;
+  /** 0 is the top edge, 1 the bottom edge. */
+  y: number;
+}
+
+// Largest colour distance (RGB, 0 to 441) from the tapped colour that still joins the selection.
+const DEFAULT_COLOR_TOLERANCE = 48;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not decode an image for segmentation.'));
+  image.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d', { willReadFrequently: true })! };
+};
+
+const toMaskDataUrl = (selected: Uint8Array, width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const imageData = ctx.createImageData(width, height);
+  const { data } = imageData;
+  for (let i = 0; i < selected.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = selected[i] ? 255 : 0;
+    data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Scales a model-made mask to the size of the photo it was made for and snaps every pixel to black or white.
+export const normalizeSegmentationMask = async (maskImageUrl: string, referenceImageUrl: string): Promise<string> => {
+  const [mask, reference] = await Promise.all([loadImage(maskImageUrl), loadImage(referenceImageUrl)]);
+  const { naturalWidth: width, naturalHeight: height } = reference;
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const selected = new Uint8Array(width * height);
+  for (let i = 0; i < selected.length; i++) {
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    selected[i] = luminance >= 128 ? 1 : 0;
+  }
+  return toMaskDataUrl(selected, width, height);
+};
+
+// Flood fill from the tapped pixel through every connected pixel close enough to the
+// average colour around it. Good enough for flat garments and plain backgrounds.
+export const segmentByColor = (image: HTMLImageElement, point: RelativePoint, tolerance = DEFAULT_COLOR_TOLERANCE): string => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const seedX = Math.min(width - 1, Math.max(0, Math.floor(point.x * width)));
+  const seedY = Math.min(height - 1, Math.max(0, Math.floor(point.y * height)));
+  // Average a small patch so a single noisy pixel does not decide the colour.
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let y = Math.max(0, seedY - 2); y <= Math.min(height - 1, seedY + 2); y++) {
+    for (let x = Math.max(0, seedX - 2); x <= Math.min(width - 1, seedX + 2); x++) {
+      const offset = (y * width + x) * 4;
+      r += data[offset]; g += data[offset + 1]; b += data[offset + 2]; count++;
+    }
+  }
+  [r, g, b] = [r / count, g / count, b / count];
+  const limit = tolerance * tolerance;
+  const isSimilar = (index: number) => {
+    const offset = index * 4;
+    const dr = data[offset] - r, dg = data[offset + 1] - g, db = data[offset + 2] - b;
+    return dr * dr + dg * dg + db * db <= limit;
+  };
+
+  const selected = new Uint8Array(width * height);
+  const stack = [seedY * width + seedX];
+  selected[stack[0]] = 1;
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      index - width,
+      index + width < width * height ? index + width : -1,
+    ];
+    for (const next of neighbours) {
+      if (next >= 0 && !selected[next] && isSimilar(next)) {
+        selected[next] = 1;
+        stack.push(next);
+      }
+    }
+  }
+  return toMaskDataUrl(selected, width, height);
+};
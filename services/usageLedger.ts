@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local record of every model call: what was asked, how long it took, how much
+// went in and what the response reported as token usage. Costs are estimates
+// from the public per-token prices below; unknown models (e.g. the mock) cost 0.
+// A soft daily budget lets the UI warn before a generation would exceed it.
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  sessionId: string;
+  providerId: string;
+  operation: string;
+  model: string;
+  latencyMs: number;
+  inputImageBytes: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  success: boolean;
+  error?: string;
+}
+
+// What the caller of `recordUsage` knows about a call; the ledger adds the rest.
+export type UsageReport = Omit<UsageEntry, 'id' | 'timestamp' | 'sessionId' | 'estimatedCostUsd'>;
+
+export interface UsageSummary {
+  calls: number;
+  failures: number;
+  totalTokens: number;
+  inputImageBytes: number;
+  estimatedCostUsd: number;
+  averageLatencyMs: number;
+  byOperation: Record<string, { calls: number; estimatedCostUsd: number }>;
+}
+
+export interface UsageBudget {
+  /** Soft limit on the estimated spend per calendar day, or null for none. */
+  dailyLimitUsd: number | null;
+}
+
+const LEDGER_STORAGE_KEY = 'my-fit-check-usage';
+const BUDGET_STORAGE_KEY = 'my-fit-check-usage-budget';
+const MAX_ENTRIES = 1000;
+
+// USD per million tokens. Image output is billed as output tokens.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-image': { input: 0.30, output: 30 },
+  'gemini-2.5-flash-image-preview': { input: 0.30, output: 30 },
+};
+// Roughly one generated image at the prices above, used before any history exists.
+const DEFAULT_CALL_COST_USD = 0.039;
+
+// Identifies this page load, so a styling session can be told apart from the rest of the day.
+export const USAGE_SESSION_ID = `session-${Date.now().toString(36)}`;
+
+let entries: UsageEntry[] | null = null;
+const listeners = new Set<() => void>();
+const reportListeners = new Set<(report: UsageReport) => void>();
+
+const loadEntries = (): UsageEntry[] => {
+  if (entries) return entries;
+  try {
+    const stored = localStorage.getItem(LEDGER_STORAGE_KEY);
+    entries = stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to read the usage ledger from localStorage", e);
+    entries = [];
+  }
+  return entries!;
+};
+
+const saveEntries = (next: UsageEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error("Failed to save the usage ledger to localStorage", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const estimateCallCost = (model: string, promptTokens: number, outputTokens: number): number => {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+export const recordUsage = (entry: UsageReport) => {
+  const timestamp = Date.now();
+  const recorded: UsageEntry = {
+    ...entry,
+    id: `usage-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    sessionId: USAGE_SESSION_ID,
+    estimatedCostUsd: estimateCallCost(entry.model, entry.promptTokens, entry.outputTokens),
+  };
+  saveEntries([...loadEntries(), recorded].slice(-MAX_ENTRIES));
+  reportListeners.forEach(listener => listener(entry));
+};
+
+export const getUsageEntries = (): UsageEntry[] => loadEntries();
+
+export const clearUsageLedger = () => saveEntries([]);
+
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Hears about every call as it is recorded, e.g. so the proxy server can send usage back to the browser.
+export const subscribeToUsageReports = (listener: (report: UsageReport) => void) => {
+  reportListeners.add(listener);
+  return () => { reportListeners.delete(listener); };
+};
+
+const startOfToday = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+};
+
+export const summarizeUsage = (scope: 'session' | 'day'): UsageSummary => {
+  const since = startOfToday();
+  const scoped = loadEntries().filter(entry => scope === 'session' ? entry.sessionId === USAGE_SESSION_ID : entry.timestamp >= since);
+  const byOperation: UsageSummary['byOperation'] = {};
+  for (const entry of scoped) {
+    const bucket = byOperation[entry.operation] ??= { calls: 0, estimatedCostUsd: 0 };
+    bucket.calls++;
+    bucket.estimatedCostUsd += entry.estimatedCostUsd;
+  }
+  return {
+    calls: scoped.length,
+    failures: scoped.filter(entry => !entry.success).length,
+    totalTokens: scoped.reduce((sum, entry) => sum + entry.totalTokens, 0),
+    inputImageBytes: scoped.reduce((sum, entry) => sum + entry.inputImageBytes, 0),
+    estimatedCostUsd: scoped.reduce((sum, entry) => sum + entry.estimatedCostUsd, 0),
+    averageLatencyMs: scoped.length ? scoped.reduce((sum, entry) => sum + entry.latencyMs, 0) / scoped.length : 0,
+    byOperation,
+  };
+};
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (stored) {
+      return { dailyLimitUsd: null, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read the usage budget from localStorage", e);
+  }
+  return { dailyLimitUsd: null };
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  } catch (e) {
+    console.error("Failed to save the usage budget to localStorage", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Predicts the cost of `calls` model calls for an operation from what it has cost so far.
+export const estimateGenerationCost = (operation: string, calls = 1): number => {
+  const history = loadEntries().filter(entry => entry.success);
+  const sameOperation = history.filter(entry => entry.operation === operation);
+  const sample = sameOperation.length > 0 ? sameOperation : history;
+  const perCall = sample.length > 0
+    ? sample.reduce((sum, entry) => sum + entry.estimatedCostUsd, 0) / sample.length
+    : DEFAULT_CALL_COST_USD;
+  return perCall * calls;
+};
+
+// Returns a warning if starting this generation would take today's spend past the budget.
+export const checkUsageBudget = (operation: string, calls = 1): string | null => {
+  const { dailyLimitUsd } = getUsageBudget();
+  if (dailyLimitUsd === null) return null;
+  const spent = summarizeUsage('day').estimatedCostUsd;
+  const projected = spent + estimateGenerationCost(operation, calls);
+  if (projected <= dailyLimitUsd) return null;
+  return `This generation would bring today's estimated spend to $${projected.toFixed(2)}, over your daily budget of $${dailyLimitUsd.toFixed(2)}.`;
+};
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { ResultCheck } from './services/resultValidation';
+
 export interface WardrobeItem {
   id: string;
   name: string;
@@ -11,13 +13,62 @@ export interface WardrobeItem {
 }
 
 export interface OutfitLayer {
+  id: string; // Stable identity so background jobs can find their layer after navigation
   garment: WardrobeItem | null; // null represents the base model layer
   poseImages: Record<string, string>; // Maps pose instruction to image URL
+  poseImageInfo?: Record<string, GeneratedImageInfo>; // Provenance of each pose image, keyed like poseImages
+  alternates?: AlternateImage[]; // Generated variants the user did not pick, kept for later
+  poseAdjustments?: Record<string, ImageAdjustments>; // Colour and tone settings shown over each pose image, keyed like poseImages
+}
+
+// Client-side adjustments layered over an image without changing it. Every value
+// runs from -100 to 100 with 0 leaving the image as it is, except sharpen (0 to 100).
+export interface ImageAdjustments {
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  temperature: number;
+  tint: number;
+  sharpen: number;
+}
+
+export interface AlternateImage {
+  poseInstruction: string;
+  imageUrl: string;
+}
+
+// Generated variants shown on the canvas until the user keeps one of them.
+export interface CandidateChoice {
+  id: string;
+  title: string;
+  candidates: string[];
+}
+
+// How an image was generated, recorded next to it so results can be traced to their prompt.
+export interface GeneratedImageInfo {
+  promptTemplate?: { name: string; version: string };
+  check?: ResultCheck; // How the image measured up against the requested aspect ratio
+}
+
+// One area selected in the edit dialog and the change to make there. `location` says
+// roughly where the area is, e.g. "upper left", so a combined request can tell them apart.
+export interface AnnotationRegion {
+  maskDataUrl: string;
+  prompt: string;
+  location: string;
 }
 
+// Whether several regions are edited in one request or one after another.
+export type RegionApplyMode = 'combined' | 'sequential';
+
 export interface SavedOutfit {
   id: string;
   previewUrl: string;
   outfitLayers: OutfitLayer[];
   poseInstruction: string;
-}
\ No newline at end of file
+}
+
+// Identifies what a queued generation will update once it finishes.
+export type GenerationJobMeta =
+  | { kind: 'garment'; garmentId: string; parentLayerId: string; layerId: string }
+  | { kind: 'pose'; layerId: string; poseInstruction: string };